@@ -1,23 +1,40 @@
 import {useState} from "react"
 import {Sprout} from "lucide-react"
-import {getDefaultUnlockedSlots} from "@data/constants"
+import type {GridSize} from "@types"
+import {DEFAULT_GRID_SIZE, MAX_GRID_DIMENSION, getDefaultUnlockedSlots} from "@data/constants"
+import {getGridSize} from "@utils/optimizer"
 import {CustomDesigner} from "@components/custom-designer.tsx";
 
-const getDefaultGrid = (): boolean[][] => {
-    const grid = Array(10)
+// Default slot pattern, clipped to the plot
+const getDefaultGrid = (size: GridSize = DEFAULT_GRID_SIZE): boolean[][] => {
+    const grid = Array(size.height)
         .fill(null)
-        .map(() => Array(10).fill(false))
+        .map(() => Array(size.width).fill(false))
     const pattern = getDefaultUnlockedSlots()
     pattern.forEach((key) => {
         const [row, col] = key.split(",").map(Number)
-        grid[row][col] = true
+        if (row < size.height && col < size.width) {
+            grid[row][col] = true
+        }
     })
     return grid
 }
 
+// Plot size from the URL ("size=WxH"), standard when missing or invalid
+const getInitialGridSize = (): GridSize => {
+    const size = new URLSearchParams(window.location.search).get('size')
+    const match = size?.match(/^(\d+)x(\d+)$/)
+    if (!match) return DEFAULT_GRID_SIZE
+
+    const [width, height] = [Number(match[1]), Number(match[2])]
+    const isValid = (n: number) => n >= 1 && n <= MAX_GRID_DIMENSION
+    return isValid(width) && isValid(height) ? {width, height} : DEFAULT_GRID_SIZE
+}
+
 // Parse design URL and get slots that need to be unlocked
 const getInitialUnlockedSlots = (): boolean[][] => {
-    const grid = getDefaultGrid()
+    const size = getInitialGridSize()
+    const grid = getDefaultGrid(size)
 
     try {
         const params = new URLSearchParams(window.location.search)
@@ -25,7 +42,7 @@ const getInitialUnlockedSlots = (): boolean[][] => {
         if (design) {
             const data = JSON.parse(atob(design)) as Array<[number, number, string, string?]>
             for (const [row, col] of data) {
-                if (row >= 0 && row < 10 && col >= 0 && col < 10) {
+                if (row >= 0 && row < size.height && col >= 0 && col < size.width) {
                     grid[row][col] = true
                 }
             }
@@ -44,6 +61,13 @@ export default function CropMutationLab() {
 
     const unlockedCount = unlockedSlots.flat().filter(Boolean).length
 
+    // Slots inside both plots keep their state; new ones start locked
+    const resizeSlots = (size: GridSize) => {
+        setUnlockedSlots(slots => Array.from({length: size.height}, (_, row) =>
+            Array.from({length: size.width}, (_, col) => slots[row]?.[col] ?? false)
+        ))
+    }
+
     return (
         <div className="min-h-screen bg-background">
             <header className="bg-card border-b border-border">
@@ -78,7 +102,8 @@ export default function CropMutationLab() {
                 <CustomDesigner
                     unlockedSlots={unlockedSlots}
                     setUnlockedSlots={setUnlockedSlots}
-                    resetSlots={() => setUnlockedSlots(getDefaultGrid)}
+                    resetSlots={() => setUnlockedSlots(slots => getDefaultGrid(getGridSize(slots)))}
+                    resizeSlots={resizeSlots}
                     unlockedMutations={unlockedMutations}
                     setUnlockedMutations={setUnlockedMutations}
                 />
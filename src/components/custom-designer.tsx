@@ -1,37 +1,24 @@
 import { useState, useMemo, useCallback, useEffect, useRef } from "react"
-import { Palette, Trash2, Sparkles, Info, Link, Upload, Grid3X3, RotateCcw, Unlock, Play, Square, Zap, Infinity, CheckSquare, Loader2, Plus, Minus, X, ChevronDown } from "lucide-react"
+import { Palette, Trash2, Sparkles, Info, Link, Upload, Grid3X3, RotateCcw, Unlock, Play, Square, Zap, Infinity, CheckSquare, Loader2, Plus, Minus, X, ChevronDown, AlertTriangle, Lock, Target, Cpu, ListOrdered, Check, Copy } from "lucide-react"
 import { MUTATIONS_DATA } from "@/data/mutationsData"
-import { BASE_CROPS, CROP_EMOJIS, EXTRA_CONDITIONS, TIER_COLORS } from "@/data/constants"
+import { BASE_CROPS, CROP_EMOJIS, DEFAULT_GRID_SIZE, EXTRA_CONDITIONS, GROUND_COLORS, GROUND_TYPES, MAX_GRID_DIMENSION, TIER_COLORS } from "@/data/constants"
 import { allMutations } from "@/lib/mutation-data"
 import { MutationIcon } from "@/components/icons/MutationIcon"
 import { CropIcon } from "@/components/icons/CropIcon"
 import { useDesignerDrag } from "@/hooks/useDesignerDrag"
-import { optimizeLayout, DEFAULT_CONFIG, QUICK_CONFIG, THOROUGH_CONFIG } from "@utils/optimizer"
-import type { CustomDesignGrid, CustomDesignCell, OptimizerConfig, OptimizerProgress, OptimizerResult, ObjectiveType } from "@types"
-
-const EFFECT_MULTIPLIERS = {
-    improved_harvest_boost: 0.30,
-    harvest_boost: 0.20,
-    harvest_loss: -0.20,
-} as const
-
-const EFFECT_SPREAD_RADIUS = {
-    none: 1,
-    effect_spread: 2,
-    improved_effect_spread: 3,
-} as const
-
-interface CellEffect {
-    multiplier: number
-    hasImmunity: boolean
-    hasBonusDrops: boolean
-    sources: Array<{ mutationId: string; effect: string; value: number }>
-}
+import { useOptimizerWorker } from "@/hooks/useOptimizerWorker"
+import { useOptimizerPool } from "@/hooks/useOptimizerPool"
+import { DEFAULT_CONFIG, QUICK_CONFIG, THOROUGH_CONFIG, createStateFromDesignGrid, estimateCopyCapacity, getSupportMutations, getRecipe, describeRecipeStep, createDesignGridState, validateLayout, areConditionsSatisfied, getRequirementStatus, getMutationAt, getGeometryCached, getGridSize, countGardenMutations, getPlotConfig, summarizeGarden, planBuildOrder, formatBuildPlan, ALL_POSITIVE_EFFECTS_CONDITION } from "@utils/optimizer"
+import { calculateCellEffects, getDesignGridEffectSources, getDistanceToFootprint, resolveEffectSources } from "@utils/effects"
+import type { CellEffectState } from "@utils/effects"
+import { applyLayoutToGrid, canPlaceFootprint, clearCellContent, formatGroundName, getCellGroundType, getFootprintAnchors, getFootprintCells, getGardenPlot, getGroundMap, getPinnedGrid, getUnlockedSlotSet, updatePlacementAt } from "@utils/designGrid"
+import type { CustomDesignGrid, CustomDesignCell, CustomDesignPlot, GardenResult, GridSize, PlannedPlacement, GroundType, LayoutViolation, RequirementStatus, OptimizerConfig, OptimizerProgress, OptimizerResult, OptimizerState, ObjectiveType, MutationTargets, ReplicaProgress, RecipeStep, SpecialRecipe } from "@types"
 
 interface CustomDesignerProps {
     unlockedSlots: boolean[][]
     setUnlockedSlots: (slots: boolean[][]) => void
     resetSlots: () => void
+    resizeSlots: (size: GridSize) => void
     unlockedMutations: string[]
     setUnlockedMutations: (mutations: string[]) => void
 }
@@ -46,107 +33,90 @@ function getMutationsByTier(): Record<number, typeof allMutations> {
     return grouped
 }
 
-function getCellDistance(r1: number, c1: number, r2: number, c2: number): number {
-    return Math.max(Math.abs(r1 - r2), Math.abs(c1 - c2))
-}
-
-function calculateCellEffects(
-    row: number,
-    col: number,
-    grid: CustomDesignGrid
-): CellEffect {
-    const effects: CellEffect = {
-        multiplier: 1.0,
-        hasImmunity: false,
-        hasBonusDrops: false,
-        sources: [],
-    }
-
-    const appliedEffects = new Set<string>()
-    const mutationsInRange: Array<{ mutationId: string; effects: string[]; distance: number }> = []
-
-    for (let r = 0; r < 10; r++) {
-        for (let c = 0; c < 10; c++) {
-            const cell = grid[r][c]
-            if (cell.type !== 'mutation' || !cell.mutationId) continue
+/**
+ * Whether a recipe's mutation step is already on the grid: the product's
+ * own step anywhere, the others next to it (or next to the product once it
+ * has grown). Null for steps the grid can't show.
+ */
+function isRecipeStepPlaced(step: RecipeStep, recipe: SpecialRecipe, productId: string, grid: CustomDesignGrid): boolean | null {
+    if (step.type !== 'mutation') return null
 
-            const mutationData = MUTATIONS_DATA[cell.mutationId]
-            if (!mutationData) continue
+    const cellsOf = (ids: string[]) => grid.flatMap((row, y) =>
+        row.flatMap((cell, x) => cell.type === 'mutation' && cell.mutationId && ids.includes(cell.mutationId) ? [{ x, y }] : [])
+    )
+    const stepCells = cellsOf([step.mutationId])
+    if (step.placement === 'product') return stepCells.length > 0
 
-            let spreadRadius: 1 | 2 | 3 = EFFECT_SPREAD_RADIUS.none
-            if (mutationData.effects.includes('improved_effect_spread')) {
-                spreadRadius = EFFECT_SPREAD_RADIUS.improved_effect_spread
-            } else if (mutationData.effects.includes('effect_spread')) {
-                spreadRadius = EFFECT_SPREAD_RADIUS.effect_spread
-            }
+    const anchorIds = recipe.steps.flatMap(s => s.type === 'mutation' && s.placement === 'product' ? [s.mutationId] : [])
+    const anchors = cellsOf([...anchorIds, productId])
+    return stepCells.some(cell => anchors.some(anchor => Math.max(Math.abs(cell.x - anchor.x), Math.abs(cell.y - anchor.y)) === 1))
+}
 
-            const distance = getCellDistance(row, col, r, c)
+function formatId(id: string): string {
+    return MUTATIONS_DATA[id]?.name ?? id.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')
+}
 
-            if (distance <= spreadRadius) {
-                mutationsInRange.push({
-                    mutationId: cell.mutationId,
-                    effects: mutationData.effects,
-                    distance
-                })
-            }
-        }
-    }
+// "4× Cocoa Beans, Pumpkin" for the placements of a build stage
+function summarizePlacements(placements: PlannedPlacement[]): string {
+    const counts = new Map<string, number>()
+    for (const placement of placements) counts.set(placement.id, (counts.get(placement.id) ?? 0) + 1)
+    return Array.from(counts, ([id, count]) => count > 1 ? `${count}× ${formatId(id)}` : formatId(id)).join(', ')
+}
 
-    mutationsInRange.sort((a, b) => a.distance - b.distance)
+function formatEffectKinds(kinds: string[]): string {
+    return kinds.map(formatId).join(', ')
+}
 
-    for (const { mutationId, effects: mutEffects } of mutationsInRange) {
-        if (mutEffects.includes('immunity') && !appliedEffects.has('immunity')) {
-            effects.hasImmunity = true
-            effects.sources.push({ mutationId, effect: 'immunity', value: 0 })
-            appliedEffects.add('immunity')
-        }
-    }
+// Missing pieces are expected while a layout is being built; the rest are mistakes
+function isMissingViolation(violation: LayoutViolation): boolean {
+    return violation.type === 'missing_crop' || violation.type === 'missing_mutation' || violation.type === 'missing_effects'
+}
 
-    for (const { mutationId, effects: mutEffects } of mutationsInRange) {
-        for (const effect of mutEffects) {
-            if (appliedEffects.has(effect)) continue
-
-            if (effect === 'improved_harvest_boost') {
-                effects.multiplier += EFFECT_MULTIPLIERS.improved_harvest_boost
-                effects.sources.push({ mutationId, effect, value: EFFECT_MULTIPLIERS.improved_harvest_boost })
-                appliedEffects.add(effect)
-            } else if (effect === 'harvest_boost') {
-                effects.multiplier += EFFECT_MULTIPLIERS.harvest_boost
-                effects.sources.push({ mutationId, effect, value: EFFECT_MULTIPLIERS.harvest_boost })
-                appliedEffects.add(effect)
-            } else if (effect === 'harvest_loss' && !effects.hasImmunity) {
-                effects.multiplier += EFFECT_MULTIPLIERS.harvest_loss
-                effects.sources.push({ mutationId, effect, value: EFFECT_MULTIPLIERS.harvest_loss })
-                appliedEffects.add(effect)
-            } else if (effect === 'bonus_drops') {
-                effects.hasBonusDrops = true
-                effects.sources.push({ mutationId, effect, value: 0 })
-                appliedEffects.add(effect)
-            }
-        }
+function formatViolation(violation: LayoutViolation): string {
+    const name = formatId(violation.subject)
+    switch (violation.type) {
+        case 'missing_crop':
+            return `${name} needs ${violation.needed} ${formatId(violation.crop)}, has ${violation.found}`
+        case 'missing_mutation':
+            return `${name} needs ${violation.needed} ${formatId(violation.mutationId)}, has ${violation.found}`
+        case 'missing_effects':
+            return `${name} missing: ${formatEffectKinds(violation.effects)}`
+        case 'isolation':
+            return `${name} must have no crops around it`
+        case 'ground_mismatch':
+            return `${name} needs ${formatGroundName(violation.required)}`
+        case 'out_of_slot':
+            return `${name} reaches past the unlocked slots`
+        case 'overlap':
+            return `${name} overlaps ${formatId(violation.otherSubject)}`
+        case 'unsupported_special':
+            return `${name} needs a step the planner can't check (${formatId(violation.special)})`
     }
+}
 
-    effects.multiplier = Math.max(0, effects.multiplier)
-    return effects
+function formatRequirement(requirement: RequirementStatus, mutationId: string): string {
+    if (requirement.id === 'adjacent_crops') return `No adjacent crops (${requirement.have})`
+    if (requirement.id === ALL_POSITIVE_EFFECTS_CONDITION) return `Positive effects ${requirement.have}/${requirement.need}`
+    if (requirement.id === MUTATIONS_DATA[mutationId]?.conditions.special) return `${formatId(requirement.id)} (not checked)`
+    return `${formatId(requirement.id)} ${requirement.have}/${requirement.need}`
 }
 
-function getMutationEffectRadius(mutationId: string): number {
-    const mutationData = MUTATIONS_DATA[mutationId]
-    if (!mutationData) return 1
+function formatCellEffects(effects: CellEffectState): string {
+    const percent = (value: number) => `${(value * 100).toFixed(0)}%`
+    const flags = [effects.immune && 'immune', effects.bonusDrops && 'bonus drops'].filter(Boolean)
+    return [`Harvest ${percent(effects.harvest)}`, `Water ${percent(effects.water)}`, `XP ${percent(effects.xp)}`, ...flags].join(' · ')
+}
 
-    if (mutationData.effects.includes('improved_effect_spread')) {
-        return EFFECT_SPREAD_RADIUS.improved_effect_spread
-    } else if (mutationData.effects.includes('effect_spread')) {
-        return EFFECT_SPREAD_RADIUS.effect_spread
-    }
-    return EFFECT_SPREAD_RADIUS.none
+function formatReplicaScore(score: number): string {
+    return Number.isFinite(score) ? score.toFixed(1) : '–'
 }
 
 function createEmptyGrid(unlockedSlots: boolean[][]): CustomDesignGrid {
+    const { width, height } = getGridSize(unlockedSlots)
     const grid: CustomDesignGrid = []
-    for (let row = 0; row < 10; row++) {
+    for (let row = 0; row < height; row++) {
         const rowCells: CustomDesignCell[] = []
-        for (let col = 0; col < 10; col++) {
+        for (let col = 0; col < width; col++) {
             rowCells.push({
                 type: unlockedSlots[row]?.[col] ? 'empty' : 'locked'
             })
@@ -166,6 +136,12 @@ function serializeGrid(grid: CustomDesignGrid): string {
             } else if (cell.type === 'crop' && cell.cropType) {
                 data.push([row, col, 'c', cell.cropType])
             }
+            if (cell.pinned && (cell.type === 'mutation' || cell.type === 'crop')) {
+                data.push([row, col, 'p'])
+            }
+            if (cell.type !== 'locked' && cell.ground && cell.ground !== 'farmland') {
+                data.push([row, col, 'g', cell.ground])
+            }
         }
     }
     return btoa(JSON.stringify(data))
@@ -177,11 +153,15 @@ function deserializeGrid(encoded: string, unlockedSlots: boolean[][]): CustomDes
         const grid = createEmptyGrid(unlockedSlots)
 
         for (const [row, col, type, id] of data) {
-            if (row >= 0 && row < 10 && col >= 0 && col < 10) {
+            if (grid[row]?.[col]) {
                 if (type === 'm' && id) {
-                    grid[row][col] = { type: 'mutation', mutationId: id }
+                    grid[row][col] = { ...grid[row][col], type: 'mutation', mutationId: id }
                 } else if (type === 'c' && id) {
-                    grid[row][col] = { type: 'crop', cropType: id }
+                    grid[row][col] = { ...grid[row][col], type: 'crop', cropType: id }
+                } else if (type === 'g' && id) {
+                    grid[row][col] = { ...grid[row][col], ground: id as GroundType }
+                } else if (type === 'p') {
+                    grid[row][col] = { ...grid[row][col], pinned: true }
                 }
             }
         }
@@ -193,6 +173,13 @@ function deserializeGrid(encoded: string, unlockedSlots: boolean[][]): CustomDes
 
 type PresetType = 'quick' | 'default' | 'thorough'
 
+const OBJECTIVE_OPTIONS: Array<{ type: ObjectiveType; label: string }> = [
+    { type: 'MAX_MUTATIONS', label: 'Max Mutations' },
+    { type: 'MAX_PROFIT', label: 'Max Profit' },
+    { type: 'MAX_YIELD', label: 'Max Yield' },
+    { type: 'TARGET_MUTATION', label: 'Grow Target' },
+]
+
 const PRESET_CONFIGS: Record<PresetType, OptimizerConfig> = {
     quick: QUICK_CONFIG,
     default: DEFAULT_CONFIG,
@@ -203,10 +190,14 @@ const INFINITE_MODE_CONFIG: OptimizerConfig = {
     maxIterations: 5000,
     startTemperature: 200,
     coolingRate: 0.9995,
-    objectiveType: 'MAX_MUTATIONS'
+    objectiveType: 'MAX_MUTATIONS',
+    schedule: 'adaptive'
 }
 
-export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, unlockedMutations, setUnlockedMutations }: CustomDesignerProps) {
+// Violations listed under the grid; the rest are summed up
+const MAX_LISTED_VIOLATIONS = 8
+
+export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, resizeSlots, unlockedMutations, setUnlockedMutations }: CustomDesignerProps) {
     const [grid, setGrid] = useState<CustomDesignGrid>(() => {
         const params = new URLSearchParams(window.location.search)
         const design = params.get('design')
@@ -216,17 +207,29 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
         }
         return createEmptyGrid(unlockedSlots)
     })
-    const [selectedItem, setSelectedItem] = useState<{ type: 'mutation' | 'crop'; id: string } | null>(null)
+    const [selectedItem, setSelectedItem] = useState<{ type: 'mutation' | 'crop' | 'ground' | 'pin'; id: string } | null>(null)
     const [hoveredCell, setHoveredCell] = useState<{ row: number; col: number } | null>(null)
     const [showEffects, setShowEffects] = useState(true)
-    const [paletteTab, setPaletteTab] = useState<'mutations' | 'crops' | 'unlocked'>('mutations')
+    const [showGround, setShowGround] = useState(false)
+    const [paletteTab, setPaletteTab] = useState<'mutations' | 'crops' | 'ground' | 'unlocked'>('mutations')
     const [copied, setCopied] = useState(false)
+    // Recipe being walked through in the palette, and the step shown
+    const [recipeGuide, setRecipeGuide] = useState<{ mutationId: string; step: number } | null>(null)
+    // Build order step-through for the layout on the grid
+    const [showBuildOrder, setShowBuildOrder] = useState(false)
+    const [buildStage, setBuildStage] = useState(0)
+    const [planCopied, setPlanCopied] = useState(false)
 
     // Grid setup state
     const [isGridDragging, setIsGridDragging] = useState(false)
     const [gridDragMode, setGridDragMode] = useState<"lock" | "unlock">("unlock")
     const [isEditingGrid, setIsEditingGrid] = useState(false)
 
+    // Garden plots; the active one's layout lives in grid and unlockedSlots, so its entry here goes stale until it's switched away from
+    const [plots, setPlots] = useState<CustomDesignPlot[]>(() => [{ id: 'plot-1', name: 'Plot 1', unlockedSlots, grid: [] }])
+    const [activePlotId, setActivePlotId] = useState('plot-1')
+    const nextPlotNumberRef = useRef(2)
+
     // Mutation selection state
     const [selectedMutationCounts, setSelectedMutationCounts] = useState<Record<string, number>>({})
     const [isAddMutationDropdownOpen, setIsAddMutationDropdownOpen] = useState(false)
@@ -237,15 +240,25 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
     // Optimizer state
     const [preset, setPreset] = useState<PresetType>('default')
     const [objectiveType, setObjectiveType] = useState<ObjectiveType>('MAX_MUTATIONS')
+    const [targetMutationId, setTargetMutationId] = useState<string | null>(null)
     const [isRunning, setIsRunning] = useState(false)
     const [progress, setProgress] = useState<OptimizerProgress | null>(null)
     const [result, setResult] = useState<OptimizerResult | null>(null)
     const [infiniteMode, setInfiniteMode] = useState(false)
+    const [parallelMode, setParallelMode] = useState(false)
+    const [replicaProgress, setReplicaProgress] = useState<ReplicaProgress[] | null>(null)
+    const [seedInput, setSeedInput] = useState("")
+    const [warmStart, setWarmStart] = useState(false)
+    const [gardenMode, setGardenMode] = useState(false)
+    const [gardenResult, setGardenResult] = useState<GardenResult | null>(null)
+    const [gardenPlotIndex, setGardenPlotIndex] = useState<number | null>(null)
     const [totalIterations, setTotalIterations] = useState(0)
-    const abortRef = useRef(false)
     const infiniteModeRef = useRef(false)
+    const totalIterationsRef = useRef(0)
 
     const { handleCellMouseDown, handleCellMouseEnter } = useDesignerDrag(grid, setGrid, selectedItem)
+    const { run: runWorker, cancel: cancelWorker } = useOptimizerWorker()
+    const { run: runPool, cancel: cancelPool } = useOptimizerPool()
 
     // Close dropdown when clicking outside
     const dropdownRef = useRef<HTMLDivElement>(null)
@@ -259,13 +272,16 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
         return () => document.removeEventListener('mousedown', handleClickOutside)
     }, [])
 
+    // The plot's dimensions follow the slot grid
+    const gridSize = useMemo(() => getGridSize(unlockedSlots), [unlockedSlots])
+
     // Sync grid when unlockedSlots change
     useEffect(() => {
         setGrid(prevGrid => {
             const newGrid: CustomDesignGrid = []
-            for (let row = 0; row < 10; row++) {
+            for (let row = 0; row < gridSize.height; row++) {
                 const rowCells: CustomDesignCell[] = []
-                for (let col = 0; col < 10; col++) {
+                for (let col = 0; col < gridSize.width; col++) {
                     const isUnlocked = unlockedSlots[row]?.[col]
                     const prevCell = prevGrid[row]?.[col]
 
@@ -281,7 +297,7 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
             }
             return newGrid
         })
-    }, [unlockedSlots])
+    }, [unlockedSlots, gridSize])
 
     // Debounced URL update to avoid "too many calls" error
     useEffect(() => {
@@ -295,39 +311,44 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                 url.searchParams.delete('design')
             }
 
+            if (gridSize.width !== DEFAULT_GRID_SIZE.width || gridSize.height !== DEFAULT_GRID_SIZE.height) {
+                url.searchParams.set('size', `${gridSize.width}x${gridSize.height}`)
+            } else {
+                url.searchParams.delete('size')
+            }
+
             window.history.replaceState({}, '', url.toString())
         }, 300)
 
         return () => clearTimeout(timeoutId)
-    }, [grid, unlockedSlots])
+    }, [grid, unlockedSlots, gridSize])
 
     const mutationsByTier = useMemo(() => getMutationsByTier(), [])
     const tierNumbers = useMemo(() => Object.keys(mutationsByTier).map(Number).sort((a, b) => a - b), [mutationsByTier])
 
+    // Shared with the optimizer's scoring, so the overlay matches MAX_YIELD
+    const effectSources = useMemo(() => resolveEffectSources(getDesignGridEffectSources(grid)), [grid])
+
     const isInHoveredRange = useCallback((row: number, col: number): boolean => {
         if (!hoveredCell) return false
-        const hoveredCellData = grid[hoveredCell.row]?.[hoveredCell.col]
-        if (hoveredCellData?.type !== 'mutation' || !hoveredCellData.mutationId) return false
+        const source = effectSources.find(s => s.position.y === hoveredCell.row && s.position.x === hoveredCell.col)
+        if (!source) return false
 
-        const radius = getMutationEffectRadius(hoveredCellData.mutationId)
-        const distance = getCellDistance(row, col, hoveredCell.row, hoveredCell.col)
-        return distance <= radius && distance > 0
-    }, [hoveredCell, grid])
+        const distance = getDistanceToFootprint({ x: col, y: row }, source)
+        return distance <= source.radius && distance > 0
+    }, [hoveredCell, effectSources])
 
     const handleCellRightClick = useCallback((e: React.MouseEvent, row: number, col: number) => {
         e.preventDefault()
         const cell = grid[row][col]
         if (cell.type === 'locked') return
-        setGrid(prev => {
-            const newGrid = prev.map(r => r.map(c => ({ ...c })))
-            newGrid[row][col] = { type: 'empty' }
-            return newGrid
-        })
+        setGrid(prev => updatePlacementAt(prev, row, col, clearCellContent))
     }, [grid])
 
+    // Clearing removes placements but keeps the painted ground
     const clearGrid = useCallback(() => {
-        setGrid(createEmptyGrid(unlockedSlots))
-    }, [unlockedSlots])
+        setGrid(prev => prev.map(row => row.map(cell => cell.type === 'locked' ? cell : clearCellContent(cell))))
+    }, [])
 
     const copyUrlToClipboard = useCallback(async () => {
         try {
@@ -351,6 +372,95 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
         return { mutations, crops, total: mutations + crops }
     }, [grid])
 
+    const groundMap = useMemo(() => getGroundMap(grid), [grid])
+
+    const guideRecipe = recipeGuide ? getRecipe(recipeGuide.mutationId) : null
+    const guideStepCount = guideRecipe?.steps.length ?? 0
+    // Mutation to pick up for the guide's current step; the product itself on the last step
+    const guideStep = recipeGuide && guideRecipe ? guideRecipe.steps[recipeGuide.step] : null
+    const guideSelectId = guideStep?.type === 'mutation'
+        ? guideStep.mutationId
+        : recipeGuide && recipeGuide.step === guideStepCount - 1 ? recipeGuide.mutationId : null
+
+    // Multi-cell mutations are stored in their top-left cell and drawn as one tile over their footprint
+    const footprintAnchors = useMemo(() => getFootprintAnchors(grid), [grid])
+
+    // Where the selected mutation would go, and whether it fits there
+    const ghost = useMemo(() => {
+        if (isEditingGrid || !hoveredCell || selectedItem?.type !== 'mutation') return null
+        const { row, col } = hoveredCell
+        return {
+            cells: new Set(getFootprintCells(selectedItem.id, row, col).map(c => `${c.row},${c.col}`)),
+            fits: canPlaceFootprint(grid, footprintAnchors, selectedItem.id, row, col)
+        }
+    }, [isEditingGrid, hoveredCell, selectedItem, grid, footprintAnchors])
+
+    // The layout as drawn, judged by the same rules the optimizer uses
+    const designState = useMemo(() => createDesignGridState(grid, groundMap), [grid, groundMap])
+
+    const buildPlan = useMemo(() => showBuildOrder ? planBuildOrder(designState.state) : null, [showBuildOrder, designState])
+    // Edits can shorten the plan under the stage being shown
+    const buildStageIndex = buildPlan ? Math.min(buildStage, Math.max(0, buildPlan.length - 1)) : 0
+    const currentBuildStage = buildPlan?.[buildStageIndex] ?? null
+
+    // What the shown stage does with each cell; a crop planted and removed in the same stage shows as planted
+    const buildStageCells = useMemo(() => {
+        const cells = new Map<string, 'plant' | 'grow' | 'remove'>()
+        if (!currentBuildStage) return cells
+        for (const placement of currentBuildStage.remove) cells.set(`${placement.position.y},${placement.position.x}`, 'remove')
+        for (const placement of currentBuildStage.plant) cells.set(`${placement.position.y},${placement.position.x}`, 'plant')
+        for (const placement of [...currentBuildStage.grow, ...currentBuildStage.recipes]) cells.set(`${placement.position.y},${placement.position.x}`, 'grow')
+        return cells
+    }, [currentBuildStage])
+
+    const copyBuildPlan = useCallback(async () => {
+        if (!buildPlan) return
+        try {
+            await navigator.clipboard.writeText(formatBuildPlan(buildPlan))
+            setPlanCopied(true)
+            setTimeout(() => setPlanCopied(false), 2000)
+        } catch (err) {
+            console.error('Failed to copy build order:', err)
+        }
+    }, [buildPlan])
+
+    // Every rule the layout breaks, and the violations touching each "row,col"
+    const violations = useMemo(() => validateLayout(designState.state, designState.unlockedSlots), [designState])
+    const violationsByCell = useMemo(() => {
+        const byCell = new Map<string, LayoutViolation[]>()
+        for (const violation of violations) {
+            for (const { x, y } of violation.cells) {
+                const key = `${y},${x}`
+                byCell.set(key, [...(byCell.get(key) ?? []), violation])
+            }
+        }
+        return byCell
+    }, [violations])
+
+    // Whether each placed mutation's conditions hold, by its top-left "row,col"
+    const mutationVerdicts = useMemo(() => {
+        const verdicts = new Map<string, boolean>()
+        for (const placed of designState.state.placedMutations.values()) {
+            verdicts.set(placed.id, areConditionsSatisfied(placed.mutationId, placed.position, designState.state).satisfied)
+        }
+        return verdicts
+    }, [designState])
+
+    // Requirements of the mutation under the cursor, with have/need counts
+    const hoveredRequirements = useMemo(() => {
+        if (!hoveredCell) return null
+        const placedId = getMutationAt(designState.state, { x: hoveredCell.col, y: hoveredCell.row })
+        const placed = placedId ? designState.state.placedMutations.get(placedId) : undefined
+        if (!placed) return null
+        const groundViolation = violations.find(v => v.placedId === placed.id && v.type === 'ground_mismatch')
+        return {
+            mutationId: placed.mutationId,
+            satisfied: mutationVerdicts.get(placed.id) ?? false,
+            requirements: getRequirementStatus(placed.mutationId, placed.position, designState.state),
+            ground: groundViolation?.type === 'ground_mismatch' ? groundViolation.required : null
+        }
+    }, [hoveredCell, designState, violations, mutationVerdicts])
+
     // Grid setup handlers
     const handleGridSlotMouseDown = useCallback((row: number, col: number) => {
         setIsGridDragging(true)
@@ -380,9 +490,57 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
     }, [])
 
     const unlockAllSlots = useCallback(() => {
-        setUnlockedSlots(Array(10).fill(null).map(() => Array(10).fill(true)))
+        setUnlockedSlots(Array(gridSize.height).fill(null).map(() => Array(gridSize.width).fill(true)))
+    }, [setUnlockedSlots, gridSize])
+
+    const resizeGrid = useCallback((dimension: keyof GridSize, value: number) => {
+        if (!Number.isInteger(value) || value < 1 || value > MAX_GRID_DIMENSION) return
+        resizeSlots({ ...gridSize, [dimension]: value })
+    }, [resizeSlots, gridSize])
+
+    // Plot handlers
+    const getLivePlots = useCallback((): CustomDesignPlot[] =>
+        plots.map(plot => plot.id === activePlotId ? { ...plot, unlockedSlots, grid } : plot),
+    [plots, activePlotId, unlockedSlots, grid])
+
+    const showPlot = useCallback((plot: CustomDesignPlot, livePlots: CustomDesignPlot[]) => {
+        setPlots(livePlots)
+        setActivePlotId(plot.id)
+        setUnlockedSlots(plot.unlockedSlots)
+        setGrid(plot.grid)
+        setResult(null)
+        setHoveredCell(null)
     }, [setUnlockedSlots])
 
+    const switchPlot = useCallback((plotId: string) => {
+        if (plotId === activePlotId) return
+        const livePlots = getLivePlots()
+        const plot = livePlots.find(p => p.id === plotId)
+        if (plot) showPlot(plot, livePlots)
+    }, [activePlotId, getLivePlots, showPlot])
+
+    // A new plot starts with the active plot's slots and nothing on them
+    const addPlot = useCallback(() => {
+        const number = nextPlotNumberRef.current++
+        const plot = { id: `plot-${number}`, name: `Plot ${number}`, unlockedSlots, grid: createEmptyGrid(unlockedSlots) }
+        showPlot(plot, [...getLivePlots(), plot])
+    }, [unlockedSlots, getLivePlots, showPlot])
+
+    const removePlot = useCallback(() => {
+        if (plots.length <= 1) return
+        const index = plots.findIndex(p => p.id === activePlotId)
+        const remaining = plots.filter(p => p.id !== activePlotId)
+        showPlot(remaining[Math.max(0, index - 1)], remaining)
+        setGardenResult(null)
+    }, [plots, activePlotId, showPlot])
+
+    const renamePlot = useCallback((name: string) => {
+        setPlots(prev => prev.map(p => p.id === activePlotId ? { ...p, name } : p))
+    }, [activePlotId])
+
+    const activePlotName = plots.find(p => p.id === activePlotId)?.name ?? ''
+    const isGardenRun = gardenMode && plots.length > 1
+
     const unlockedCount = useMemo(() => unlockedSlots.flat().filter(Boolean).length, [unlockedSlots])
 
     // Mutation selection handlers
@@ -430,136 +588,235 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
     }, [setUnlockedMutations])
 
     // Optimizer handlers
-    const unlockedSlotsSet = useMemo(() => {
-        const set = new Set<string>()
-        unlockedSlots.forEach((row, rowIndex) => {
-            row.forEach((unlocked, colIndex) => {
-                if (unlocked) set.add(`${rowIndex},${colIndex}`)
+    const unlockedSlotsSet = useMemo(() => getUnlockedSlotSet(unlockedSlots), [unlockedSlots])
+
+    // Blank means a fresh random seed per run
+    const seed = seedInput.trim() === "" ? undefined : Number(seedInput) >>> 0
+
+    const runInfiniteBatches = useCallback(async (
+        mutationsForOptimizer: string[],
+        targets: MutationTargets,
+        initialState?: OptimizerState
+    ) => {
+        let batch = 0
+        // Each batch picks up from the previous batch's best layout
+        let startState = initialState
+
+        while (infiniteModeRef.current) {
+            const offset = totalIterationsRef.current
+            // Each batch gets its own seed so batches explore differently but stay reproducible
+            const config = {
+                ...INFINITE_MODE_CONFIG,
+                objectiveType,
+                targetMutationId: targetMutationId ?? undefined,
+                ground: groundMap,
+                gridSize,
+                seed: seed === undefined ? undefined : (seed + batch) >>> 0,
+                targets,
+                // Later batches start from the search's layout, so searching again would repeat it
+                exact: batch === 0 ? undefined : false
+            }
+            batch++
+            const { result: batchResult, cancelled } = await runWorker(
+                unlockedSlotsSet,
+                mutationsForOptimizer,
+                config,
+                {
+                    onProgress: (prog) => setProgress({
+                        ...prog,
+                        iteration: prog.iteration + offset,
+                        maxIterations: offset + config.maxIterations
+                    })
+                },
+                startState
+            )
+            if (!batchResult) break
+            startState = batchResult.state
+
+            totalIterationsRef.current += batchResult.iterations
+            setTotalIterations(totalIterationsRef.current)
+            setResult(prevResult => {
+                if (!prevResult || batchResult.bestScore > prevResult.bestScore) {
+                    return batchResult
+                }
+                return prevResult
             })
-        })
-        return set
-    }, [unlockedSlots])
 
-    const runInfiniteBatch = useCallback(() => {
-        if (!infiniteModeRef.current || abortRef.current) {
-            setIsRunning(false)
-            return
+            // A proven optimum can't be improved by further batches
+            if (cancelled || batchResult.optimal) break
         }
-
-        // Convert selectedMutationCounts to array format for optimizer
-        const mutationsForOptimizer: string[] = []
-        Object.entries(selectedMutationCounts).forEach(([mutationId, count]) => {
-            for (let i = 0; i < count; i++) {
-                mutationsForOptimizer.push(mutationId)
-            }
-        })
-
-        const config = { ...INFINITE_MODE_CONFIG, objectiveType }
-        const batchResult = optimizeLayout(
+    }, [unlockedSlotsSet, objectiveType, targetMutationId, groundMap, gridSize, seed, runWorker])
+
+    const runParallelReplicas = useCallback(async (
+        mutationsForOptimizer: string[],
+        targets: MutationTargets,
+        initialState?: OptimizerState
+    ) => {
+        const config = {
+            ...INFINITE_MODE_CONFIG,
+            objectiveType,
+            targetMutationId: targetMutationId ?? undefined,
+            ground: groundMap,
+            gridSize,
+            seed,
+            targets
+        }
+        const { result: poolResult } = await runPool(
             unlockedSlotsSet,
             mutationsForOptimizer,
             config,
-            (prog) => {
-                if (!abortRef.current) {
-                    setProgress({
-                        ...prog,
-                        iteration: prog.iteration + totalIterations,
-                        maxIterations: totalIterations + config.maxIterations
-                    })
-                }
-            }
+            {
+                onReplicaProgress: setReplicaProgress,
+                onBest: setResult
+            },
+            initialState
         )
-
-        if (abortRef.current) {
-            setIsRunning(false)
-            return
+        if (poolResult) setResult(poolResult)
+    }, [unlockedSlotsSet, objectiveType, targetMutationId, groundMap, gridSize, seed, runPool])
+
+    const runGarden = useCallback(async (
+        mutationsForOptimizer: string[],
+        targets: MutationTargets
+    ) => {
+        const gardenPlots = getLivePlots().map(plot => getGardenPlot(plot, warmStart))
+        const config = {
+            ...PRESET_CONFIGS[preset],
+            objectiveType,
+            targetMutationId: targetMutationId ?? undefined,
+            seed,
+            targets
+        }
+        const results: OptimizerResult[] = []
+
+        // Plots run one after another, each asked for what the earlier ones didn't place
+        for (const [plotIndex, plot] of gardenPlots.entries()) {
+            setGardenPlotIndex(plotIndex)
+            setProgress(null)
+            const placed = countGardenMutations(results.map(r => r.state))
+            const { result: plotResult, cancelled } = await runWorker(
+                plot.unlockedSlots,
+                mutationsForOptimizer,
+                getPlotConfig(plot, config, placed, plotIndex),
+                { onProgress: setProgress },
+                plot.initialState
+            )
+            if (!plotResult) break
+            results.push(plotResult)
+            if (cancelled) break
         }
 
-        setTotalIterations(prev => prev + config.maxIterations)
-        setResult(prevResult => {
-            if (!prevResult || batchResult.bestScore > prevResult.bestScore) {
-                return batchResult
-            }
-            return prevResult
-        })
+        setGardenPlotIndex(null)
+        setGardenResult(summarizeGarden(gardenPlots.slice(0, results.length), results, config))
+    }, [getLivePlots, warmStart, preset, objectiveType, targetMutationId, seed, runWorker])
 
-        setTimeout(() => runInfiniteBatch(), 10)
-    }, [unlockedSlotsSet, selectedMutationCounts, objectiveType, totalIterations])
+    const isTargetObjective = objectiveType === 'TARGET_MUTATION'
+    const canRunOptimizer = isTargetObjective ? targetMutationId !== null : Object.keys(selectedMutationCounts).length > 0
 
-    const runOptimizer = useCallback(() => {
-        if (Object.keys(selectedMutationCounts).length === 0) {
-            alert('Please select some mutations first!')
+    const targetCapacity = useMemo(
+        () => targetMutationId ? estimateCopyCapacity(targetMutationId, unlockedCount) : 0,
+        [targetMutationId, unlockedCount]
+    )
+
+    const runOptimizer = useCallback(async () => {
+        if (!canRunOptimizer) {
+            alert(isTargetObjective ? 'Please pick a target mutation first!' : 'Please select some mutations first!')
             return
         }
-        if (unlockedCount === 0) {
+        if (!isGardenRun && unlockedCount === 0) {
             alert('Please unlock some grid slots first!')
             return
         }
 
-        // Convert selectedMutationCounts to array format for optimizer
-        const mutationsForOptimizer: string[] = []
-        Object.entries(selectedMutationCounts).forEach(([mutationId, count]) => {
-            for (let i = 0; i < count; i++) {
-                mutationsForOptimizer.push(mutationId)
-            }
-        })
+        // Growing a target uses its whole dependency tree; otherwise each
+        // selected count is an exact target, not just a weighting
+        const mutationsForOptimizer = isTargetObjective && targetMutationId
+            ? getSupportMutations(targetMutationId)
+            : Object.keys(selectedMutationCounts)
+        const targets: MutationTargets = isTargetObjective ? {} : Object.fromEntries(
+            Object.entries(selectedMutationCounts).map(([mutationId, count]) => [mutationId, { exact: count }])
+        )
+
+        // Optionally continue from what's already on the grid; pinned cells are always kept
+        const hasPins = grid.some(row => row.some(cell => cell.pinned))
+        const initialState = warmStart || hasPins
+            ? createStateFromDesignGrid(warmStart ? grid : getPinnedGrid(grid), groundMap)
+            : undefined
 
         setIsRunning(true)
         setProgress(null)
+        setReplicaProgress(null)
         setResult(null)
-        abortRef.current = false
+        setGardenResult(null)
 
-        if (infiniteMode) {
-            setTotalIterations(0)
-            infiniteModeRef.current = true
-            setTimeout(() => runInfiniteBatch(), 50)
-        } else {
-            infiniteModeRef.current = false
-            setTimeout(() => {
-                const config = { ...PRESET_CONFIGS[preset], objectiveType }
-                const optimResult = optimizeLayout(
+        try {
+            if (isGardenRun) {
+                infiniteModeRef.current = false
+                await runGarden(mutationsForOptimizer, targets)
+            } else if (infiniteMode && parallelMode) {
+                infiniteModeRef.current = true
+                await runParallelReplicas(mutationsForOptimizer, targets, initialState)
+            } else if (infiniteMode) {
+                totalIterationsRef.current = 0
+                setTotalIterations(0)
+                infiniteModeRef.current = true
+                await runInfiniteBatches(mutationsForOptimizer, targets, initialState)
+            } else {
+                infiniteModeRef.current = false
+                const config = {
+                    ...PRESET_CONFIGS[preset],
+                    objectiveType,
+                    targetMutationId: targetMutationId ?? undefined,
+                    ground: groundMap,
+                    gridSize,
+                    seed,
+                    targets
+                }
+                const { result: optimResult } = await runWorker(
                     unlockedSlotsSet,
                     mutationsForOptimizer,
                     config,
-                    (prog) => {
-                        if (!abortRef.current) setProgress(prog)
-                    }
+                    {
+                        onProgress: setProgress,
+                        onBest: setResult
+                    },
+                    initialState
                 )
-                if (!abortRef.current) setResult(optimResult)
-                setIsRunning(false)
-            }, 50)
+                if (optimResult) setResult(optimResult)
+            }
+        } catch (err) {
+            console.error('Optimizer failed:', err)
+        } finally {
+            infiniteModeRef.current = false
+            setGardenPlotIndex(null)
+            setIsRunning(false)
         }
-    }, [selectedMutationCounts, unlockedCount, unlockedSlotsSet, preset, objectiveType, infiniteMode, runInfiniteBatch])
+    }, [canRunOptimizer, isTargetObjective, targetMutationId, selectedMutationCounts, unlockedCount, unlockedSlotsSet, preset, objectiveType, groundMap, gridSize, seed, warmStart, grid, infiniteMode, parallelMode, isGardenRun, runGarden, runInfiniteBatches, runParallelReplicas, runWorker])
 
     const stopOptimizer = useCallback(() => {
-        abortRef.current = true
+        // The worker halts at its next checkpoint and resolves the run with its best state
         infiniteModeRef.current = false
-        setIsRunning(false)
-    }, [])
+        cancelWorker()
+        cancelPool()
+    }, [cancelWorker, cancelPool])
 
     const applyOptimizedLayout = useCallback(() => {
         if (!result) return
-        const newGrid = createEmptyGrid(unlockedSlots)
-
-        // Apply mutations
-        result.state.placedMutations.forEach((placed) => {
-            const { x, y } = placed.position
-            if (newGrid[y]?.[x]) {
-                newGrid[y][x] = { type: 'mutation', mutationId: placed.mutationId }
-            }
-        })
-
-        // Apply crops
-        result.state.placedCrops.forEach((placed) => {
-            const { x, y } = placed.position
-            if (newGrid[y]?.[x] && newGrid[y][x].type === 'empty') {
-                newGrid[y][x] = { type: 'crop', cropType: placed.crop }
-            }
-        })
-
-        setGrid(newGrid)
+        setGrid(applyLayoutToGrid(grid, result.state))
         setResult(null)
-    }, [result, unlockedSlots])
+    }, [result, grid])
+
+    const applyGardenLayout = useCallback(() => {
+        if (!gardenResult) return
+        const layouts = new Map(gardenResult.plots.map(plot => [plot.plotId, plot.result.state]))
+        const applied = getLivePlots().map(plot => {
+            const layout = layouts.get(plot.id)
+            return layout ? { ...plot, grid: applyLayoutToGrid(plot.grid, layout) } : plot
+        })
+        setPlots(applied)
+        const active = applied.find(plot => plot.id === activePlotId)
+        if (active) setGrid(active.grid)
+        setGardenResult(null)
+    }, [gardenResult, getLivePlots, activePlotId])
 
     const getMultiplierColor = (multiplier: number) => {
         if (multiplier >= 1.5) return 'text-green-400'
@@ -620,6 +877,13 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                             Palette
                         </h3>
                         <div className="flex gap-1">
+                            <button
+                                onClick={() => setSelectedItem(selectedItem?.type === 'pin' ? null : { type: 'pin', id: 'pin' })}
+                                className={`p-1.5 rounded-lg transition-colors ${selectedItem?.type === 'pin' ? 'bg-accent/30' : 'hover:bg-muted'}`}
+                                title="Pin or unpin placements so the optimizer keeps them"
+                            >
+                                <Lock className={`h-3.5 w-3.5 ${selectedItem?.type === 'pin' ? 'text-yellow-400' : 'text-muted-foreground'}`} />
+                            </button>
                             <button
                                 onClick={copyUrlToClipboard}
                                 className="p-1.5 hover:bg-muted rounded-lg transition-colors"
@@ -634,7 +898,7 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                     </div>
 
                     <div className="flex gap-1 mb-3">
-                        {(['mutations', 'crops', 'unlocked'] as const).map((tab) => (
+                        {(['mutations', 'crops', 'ground', 'unlocked'] as const).map((tab) => (
                             <button
                                 key={tab}
                                 onClick={() => setPaletteTab(tab)}
@@ -658,13 +922,98 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                                         <MutationIcon mutationId={selectedItem.id} mutationName={MUTATIONS_DATA[selectedItem.id]?.name || selectedItem.id} size="small" />
                                         <span className="text-sm font-medium text-foreground truncate">{MUTATIONS_DATA[selectedItem.id]?.name || selectedItem.id}</span>
                                     </>
+                                ) : selectedItem.type === 'pin' ? (
+                                    <>
+                                        <Lock className="h-4 w-4 text-yellow-400" />
+                                        <span className="text-sm font-medium text-foreground truncate">Pin / Unpin</span>
+                                    </>
+                                ) : selectedItem.type === 'ground' ? (
+                                    <>
+                                        <span className="w-5 h-5 rounded border border-border" style={{ backgroundColor: GROUND_COLORS[selectedItem.id as GroundType] }} />
+                                        <span className="text-sm font-medium text-foreground truncate">{formatGroundName(selectedItem.id as GroundType)}</span>
+                                    </>
                                 ) : (
                                     <>
                                         <CropIcon crop={selectedItem.id} size="small" />
                                         <span className="text-sm font-medium text-foreground truncate">{selectedItem.id.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}</span>
                                     </>
                                 )}
-                                <button onClick={() => setSelectedItem(null)} className="ml-auto text-[10px] text-muted-foreground hover:text-foreground">Clear</button>
+                                {selectedItem.type === 'mutation' && getRecipe(selectedItem.id) && (
+                                    <button
+                                        onClick={() => setRecipeGuide({ mutationId: selectedItem.id, step: 0 })}
+                                        title="Walk through this mutation's recipe"
+                                        className="ml-auto p-1 rounded hover:bg-muted"
+                                    >
+                                        <ListOrdered className={`h-3.5 w-3.5 ${recipeGuide?.mutationId === selectedItem.id ? 'text-primary' : 'text-muted-foreground'}`} />
+                                    </button>
+                                )}
+                                {selectedItem.type === 'mutation' && (
+                                    <button
+                                        onClick={() => {
+                                            setTargetMutationId(selectedItem.id)
+                                            setObjectiveType('TARGET_MUTATION')
+                                        }}
+                                        title="Grow as many copies of this mutation as possible"
+                                        className={`${getRecipe(selectedItem.id) ? '' : 'ml-auto '}p-1 rounded hover:bg-muted`}
+                                    >
+                                        <Target className={`h-3.5 w-3.5 ${targetMutationId === selectedItem.id ? 'text-primary' : 'text-muted-foreground'}`} />
+                                    </button>
+                                )}
+                                <button onClick={() => setSelectedItem(null)} className={`${selectedItem.type === 'mutation' ? '' : 'ml-auto '}text-[10px] text-muted-foreground hover:text-foreground`}>Clear</button>
+                            </div>
+                        </div>
+                    )}
+
+                    {recipeGuide && guideRecipe && (
+                        <div className="p-2 bg-muted rounded-lg space-y-1.5">
+                            <div className="flex items-center gap-2">
+                                <ListOrdered className="h-3.5 w-3.5 text-primary flex-shrink-0" />
+                                <span className="text-[10px] font-medium text-foreground truncate">{MUTATIONS_DATA[recipeGuide.mutationId]?.name}: {guideRecipe.description}</span>
+                                <button onClick={() => setRecipeGuide(null)} className="ml-auto p-0.5 rounded hover:bg-card" title="Close recipe">
+                                    <X className="h-3 w-3 text-muted-foreground" />
+                                </button>
+                            </div>
+                            <ol className="space-y-0.5">
+                                {guideRecipe.steps.map((step, index) => {
+                                    const placed = isRecipeStepPlaced(step, guideRecipe, recipeGuide.mutationId, grid)
+                                    return (
+                                        <li key={index}>
+                                            <button
+                                                onClick={() => setRecipeGuide({ ...recipeGuide, step: index })}
+                                                className={`w-full p-1.5 rounded-lg border text-left flex items-center gap-2 text-[10px] ${
+                                                    index === recipeGuide.step ? 'bg-accent/20 border-accent text-foreground' : 'bg-card border-border text-muted-foreground hover:border-accent/50'
+                                                }`}
+                                            >
+                                                {placed ? <Check className="h-3 w-3 text-green-500 flex-shrink-0" /> : <span className="w-3 text-center font-bold flex-shrink-0">{index + 1}</span>}
+                                                <span className="flex-1">{describeRecipeStep(step)}</span>
+                                            </button>
+                                        </li>
+                                    )
+                                })}
+                            </ol>
+                            <div className="flex items-center gap-1">
+                                <button
+                                    onClick={() => setRecipeGuide({ ...recipeGuide, step: recipeGuide.step - 1 })}
+                                    disabled={recipeGuide.step === 0}
+                                    className="px-2 py-1 rounded text-[10px] bg-card border border-border disabled:opacity-50"
+                                >
+                                    Back
+                                </button>
+                                {guideSelectId && (
+                                    <button
+                                        onClick={() => setSelectedItem({ type: 'mutation', id: guideSelectId })}
+                                        className="flex-1 px-2 py-1 rounded text-[10px] bg-accent/20 border border-accent text-foreground truncate"
+                                    >
+                                        Select {MUTATIONS_DATA[guideSelectId]?.name}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setRecipeGuide({ ...recipeGuide, step: recipeGuide.step + 1 })}
+                                    disabled={recipeGuide.step === guideStepCount - 1}
+                                    className="ml-auto px-2 py-1 rounded text-[10px] bg-card border border-border disabled:opacity-50"
+                                >
+                                    Next
+                                </button>
                             </div>
                         </div>
                     )}
@@ -754,6 +1103,32 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                         </div>
                     )}
 
+                    {paletteTab === 'ground' && (
+                        <div className="space-y-2">
+                            <div className="text-[10px] text-muted-foreground">Paint the block under each cell. Unpainted cells are farmland.</div>
+                            <div className="grid grid-cols-2 gap-0.5">
+                                {GROUND_TYPES.map(ground => {
+                                    const isSelected = selectedItem?.type === 'ground' && selectedItem.id === ground
+                                    return (
+                                        <button
+                                            key={ground}
+                                            onClick={() => {
+                                                setSelectedItem({ type: 'ground', id: ground })
+                                                setShowGround(true)
+                                            }}
+                                            className={`p-1.5 rounded-lg border transition-all text-left flex items-center gap-1 ${
+                                                isSelected ? 'bg-accent/20 border-accent' : 'bg-card border-border hover:border-accent/50'
+                                            }`}
+                                        >
+                                            <span className="w-4 h-4 rounded-sm border border-border flex-shrink-0" style={{ backgroundColor: GROUND_COLORS[ground] }} />
+                                            <span className="text-[10px] font-medium text-foreground truncate">{formatGroundName(ground)}</span>
+                                        </button>
+                                    )
+                                })}
+                            </div>
+                        </div>
+                    )}
+
                     {paletteTab === 'unlocked' && (
                         <div className="space-y-3">
                             <div className="flex justify-between items-center">
@@ -795,6 +1170,29 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
 
             {/* Center - Design Grid */}
             <div className={`flex-1 space-y-3 ${mobileView !== 'grid' ? 'hidden lg:block' : ''}`}>
+                <div className="flex items-center gap-1 overflow-x-auto">
+                    {plots.map(plot => (
+                        <button
+                            key={plot.id}
+                            onClick={() => switchPlot(plot.id)}
+                            disabled={isRunning}
+                            className={`px-2.5 py-1 rounded-lg text-xs whitespace-nowrap transition-all disabled:opacity-50 ${
+                                plot.id === activePlotId ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground hover:bg-muted/80'
+                            }`}
+                        >
+                            {plot.name || 'Untitled'}
+                        </button>
+                    ))}
+                    <button
+                        onClick={addPlot}
+                        disabled={isRunning}
+                        title="Add a plot to the garden"
+                        className="p-1.5 rounded-lg bg-muted text-foreground hover:bg-muted/80 disabled:opacity-50"
+                    >
+                        <Plus className="h-3 w-3" />
+                    </button>
+                </div>
+
                 <div className="flex items-center justify-between">
                     <h3 className="font-bold text-foreground flex items-center gap-2">
                         <Sparkles className="h-4 w-4" />
@@ -802,6 +1200,36 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                     </h3>
                     {isEditingGrid ? (
                         <div className="flex items-center gap-2">
+                            <input
+                                value={activePlotName}
+                                onChange={(e) => renamePlot(e.target.value)}
+                                placeholder="Plot name"
+                                className="w-24 px-2 py-0.5 bg-card border border-border rounded text-xs text-foreground"
+                            />
+                            {plots.length > 1 && (
+                                <button onClick={removePlot} title="Remove this plot from the garden" className="p-1.5 bg-muted text-destructive rounded-lg hover:bg-destructive/20">
+                                    <Trash2 className="h-3 w-3" />
+                                </button>
+                            )}
+                            <label className="flex items-center gap-1 text-xs text-muted-foreground" title="Plot width × height">
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max={MAX_GRID_DIMENSION}
+                                    value={gridSize.width}
+                                    onChange={(e) => resizeGrid('width', parseInt(e.target.value))}
+                                    className="w-10 px-1 py-0.5 text-center bg-card border border-border rounded text-xs text-foreground"
+                                />
+                                ×
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max={MAX_GRID_DIMENSION}
+                                    value={gridSize.height}
+                                    onChange={(e) => resizeGrid('height', parseInt(e.target.value))}
+                                    className="w-10 px-1 py-0.5 text-center bg-card border border-border rounded text-xs text-foreground"
+                                />
+                            </label>
                             <button onClick={unlockAllSlots} className="px-3 py-1.5 bg-primary text-primary-foreground rounded-lg text-xs hover:bg-primary/90 flex items-center gap-1">
                                 <Unlock className="h-3 w-3" />
                                 Unlock All
@@ -816,24 +1244,55 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                             </button>
                         </div>
                     ) : (
-                        <label className="flex items-center gap-2 text-xs">
-                            <input type="checkbox" checked={showEffects} onChange={(e) => setShowEffects(e.target.checked)} className="w-3.5 h-3.5 rounded" />
-                            <span className="text-muted-foreground">Effects</span>
-                        </label>
+                        <div className="flex items-center gap-3">
+                            <button
+                                onClick={() => {
+                                    setShowBuildOrder(!showBuildOrder)
+                                    setBuildStage(0)
+                                }}
+                                title="Step through the order to build this layout in"
+                                className={`flex items-center gap-1 text-xs ${showBuildOrder ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+                            >
+                                <ListOrdered className="h-3.5 w-3.5" />
+                                Build Order
+                            </button>
+                            <label className="flex items-center gap-2 text-xs">
+                                <input type="checkbox" checked={showGround} onChange={(e) => setShowGround(e.target.checked)} className="w-3.5 h-3.5 rounded" />
+                                <span className="text-muted-foreground">Ground</span>
+                            </label>
+                            <label className="flex items-center gap-2 text-xs">
+                                <input type="checkbox" checked={showEffects} onChange={(e) => setShowEffects(e.target.checked)} className="w-3.5 h-3.5 rounded" />
+                                <span className="text-muted-foreground">Effects</span>
+                            </label>
+                        </div>
                     )}
                 </div>
 
                 <div className="flex justify-center overflow-x-auto" onMouseUp={isEditingGrid ? handleGridMouseUp : undefined} onMouseLeave={isEditingGrid ? handleGridMouseUp : undefined}>
-                    <div className="inline-grid grid-cols-10 gap-0.5 p-2 sm:p-3 bg-card border border-border rounded-xl">
+                    <div className="inline-grid gap-0.5 p-2 sm:p-3 bg-card border border-border rounded-xl" style={{ gridTemplateColumns: `repeat(${gridSize.width}, minmax(0, 1fr))` }}>
                         {grid.map((row, rowIndex) =>
                             row.map((cell, colIndex) => {
+                                const cellKey = `${rowIndex},${colIndex}`
+                                const anchor = isEditingGrid ? undefined : footprintAnchors.get(cellKey)
+                                if (anchor && anchor !== cellKey) return null
+                                const span = anchor && cell.mutationId ? getGeometryCached(cell.mutationId) : null
+                                const inGhost = ghost?.cells.has(cellKey)
+
                                 const isUnlocked = cell.type !== 'locked'
                                 const inHoveredRange = isInHoveredRange(rowIndex, colIndex)
-                                const effects = showEffects && cell.type === 'crop' ? calculateCellEffects(rowIndex, colIndex, grid) : null
+                                const effects = showEffects && cell.type === 'crop' ? calculateCellEffects({ x: colIndex, y: rowIndex }, effectSources) : null
+                                const cellViolations = violationsByCell.get(`${rowIndex},${colIndex}`)
+                                const hasMistake = cellViolations?.some(v => !isMissingViolation(v))
+                                const verdict = cell.type === 'mutation' ? mutationVerdicts.get(`${rowIndex},${colIndex}`) : undefined
+                                const buildAction = buildStageCells.get(cellKey)
 
                                 return (
                                     <div
                                         key={`${rowIndex}-${colIndex}`}
+                                        style={{
+                                            gridRow: `${rowIndex + 1} / span ${span?.height ?? 1}`,
+                                            gridColumn: `${colIndex + 1} / span ${span?.width ?? 1}`
+                                        }}
                                         onMouseDown={() => isEditingGrid ? handleGridSlotMouseDown(rowIndex, colIndex) : handleCellMouseDown(rowIndex, colIndex)}
                                         onMouseEnter={() => {
                                             if (isEditingGrid) {
@@ -845,26 +1304,50 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                                         }}
                                         onMouseLeave={() => setHoveredCell(null)}
                                         onContextMenu={(e) => handleCellRightClick(e, rowIndex, colIndex)}
+                                        title={!isEditingGrid && isUnlocked ? [formatGroundName(getCellGroundType(cell)), effects && formatCellEffects(effects), ...(cellViolations ?? []).map(formatViolation)].filter(Boolean).join(' · ') : undefined}
                                         className={`
-                                            w-8 h-8 sm:w-10 sm:h-10 rounded border flex flex-col items-center justify-center transition-all relative cursor-pointer select-none
+                                            ${span ? 'w-full h-full' : 'w-8 h-8 sm:w-10 sm:h-10'} rounded border flex flex-col items-center justify-center transition-all relative cursor-pointer select-none
                                             ${isEditingGrid ? (isUnlocked ? 'bg-primary border-primary' : 'bg-muted/50 border-border/50') : ''}
                                             ${!isEditingGrid && cell.type === 'locked' ? 'bg-muted/50 border-border/50 cursor-not-allowed' : ''}
                                             ${!isEditingGrid && cell.type === 'empty' ? 'bg-card border-border hover:border-accent/50' : ''}
                                             ${!isEditingGrid && cell.type === 'mutation' ? 'bg-accent/20 border-accent' : ''}
-                                            ${!isEditingGrid && cell.type === 'crop' && effects ? getMultiplierBg(effects.multiplier) : ''}
+                                            ${!isEditingGrid && cell.type === 'crop' && effects ? getMultiplierBg(effects.harvest) : ''}
                                             ${!isEditingGrid && cell.type === 'crop' && !effects ? 'bg-blue-500/20 border-blue-500/50' : ''}
                                             ${!isEditingGrid && inHoveredRange ? 'ring-2 ring-purple-400 ring-offset-1 ring-offset-background' : ''}
                                             ${!isEditingGrid && selectedItem && isUnlocked && cell.type === 'empty' ? 'hover:bg-accent/10' : ''}
+                                            ${!isEditingGrid && cellViolations && !buildPlan ? (hasMistake ? 'ring-2 ring-red-500' : 'ring-2 ring-amber-500') : ''}
+                                            ${!isEditingGrid && buildAction === 'plant' ? 'ring-2 ring-green-400' : ''}
+                                            ${!isEditingGrid && buildAction === 'grow' ? 'ring-2 ring-accent' : ''}
+                                            ${!isEditingGrid && buildAction === 'remove' ? 'ring-2 ring-red-400' : ''}
+                                            ${!isEditingGrid && buildPlan && !buildAction && cell.type !== 'locked' ? 'opacity-40' : ''}
+                                            ${inGhost ? (ghost?.fits ? 'border-dashed border-accent bg-accent/30' : 'border-dashed border-red-500 bg-red-500/20') : ''}
                                         `}
                                     >
+                                        {!isEditingGrid && showGround && isUnlocked && (
+                                            <span
+                                                className="absolute inset-x-0 bottom-0 h-1.5 rounded-b pointer-events-none"
+                                                style={{ backgroundColor: GROUND_COLORS[getCellGroundType(cell)] }}
+                                            />
+                                        )}
+                                        {!isEditingGrid && cell.pinned && cell.type !== 'empty' && (
+                                            <Lock className="absolute top-0 left-0 h-2.5 w-2.5 text-yellow-400 pointer-events-none" />
+                                        )}
+                                        {!isEditingGrid && cellViolations && (
+                                            <AlertTriangle className={`absolute top-0 right-0 h-2.5 w-2.5 pointer-events-none ${hasMistake ? 'text-red-500' : 'text-amber-500'}`} />
+                                        )}
+                                        {!isEditingGrid && verdict !== undefined && (
+                                            <span className={`absolute bottom-0.5 right-0.5 rounded-full p-px pointer-events-none ${verdict ? 'bg-green-600' : 'bg-red-600'}`}>
+                                                {verdict ? <Check className="h-2 w-2 text-white" /> : <X className="h-2 w-2 text-white" />}
+                                            </span>
+                                        )}
                                         {!isEditingGrid && cell.type === 'mutation' && cell.mutationId && (
-                                            <MutationIcon mutationId={cell.mutationId} mutationName={MUTATIONS_DATA[cell.mutationId]?.name || cell.mutationId} size="small" />
+                                            <MutationIcon mutationId={cell.mutationId} mutationName={MUTATIONS_DATA[cell.mutationId]?.name || cell.mutationId} size={!span ? 'small' : span.width > 2 ? 'large' : 'medium'} />
                                         )}
                                         {!isEditingGrid && cell.type === 'crop' && cell.cropType && (
                                             <>
                                                 <CropIcon crop={cell.cropType} size="small" />
                                                 {effects && showEffects && (
-                                                    <span className={`text-[8px] font-bold ${getMultiplierColor(effects.multiplier)}`}>{(effects.multiplier * 100).toFixed(0)}%</span>
+                                                    <span className={`text-[8px] font-bold ${getMultiplierColor(effects.harvest)}`}>{(effects.harvest * 100).toFixed(0)}%</span>
                                                 )}
                                             </>
                                         )}
@@ -875,6 +1358,110 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                     </div>
                 </div>
 
+                {!isEditingGrid && (
+                    <div className="flex items-center gap-2 min-h-9 px-3 py-2 bg-card border border-border rounded-xl text-[10px]">
+                        {hoveredRequirements ? (
+                            <>
+                                {hoveredRequirements.satisfied
+                                    ? <Check className="h-3.5 w-3.5 text-green-400 flex-shrink-0" />
+                                    : <X className="h-3.5 w-3.5 text-red-400 flex-shrink-0" />}
+                                <span className="font-medium text-foreground">{formatId(hoveredRequirements.mutationId)}</span>
+                                <span className="flex flex-wrap gap-x-2">
+                                    {hoveredRequirements.requirements.map(requirement => (
+                                        <span key={requirement.id} className={requirement.met ? 'text-green-400' : 'text-red-400'}>
+                                            {formatRequirement(requirement, hoveredRequirements.mutationId)}
+                                        </span>
+                                    ))}
+                                    {hoveredRequirements.ground && (
+                                        <span className="text-red-400">Needs {formatGroundName(hoveredRequirements.ground)}</span>
+                                    )}
+                                    {hoveredRequirements.requirements.length === 0 && !hoveredRequirements.ground && (
+                                        <span className="text-muted-foreground">No requirements</span>
+                                    )}
+                                </span>
+                            </>
+                        ) : (
+                            <span className="text-muted-foreground">Hover a mutation to see its requirements</span>
+                        )}
+                    </div>
+                )}
+
+                {buildPlan && !isEditingGrid && (
+                    <div className="p-3 bg-card border border-border rounded-xl space-y-2 text-[10px]">
+                        <div className="flex items-center gap-2">
+                            <ListOrdered className="h-3.5 w-3.5 text-primary flex-shrink-0" />
+                            <span className="font-medium text-foreground">
+                                {currentBuildStage ? `Stage ${buildStageIndex + 1} of ${buildPlan.length} · Tier ${currentBuildStage.tier}` : 'Nothing on the grid to build'}
+                            </span>
+                            <button
+                                onClick={copyBuildPlan}
+                                disabled={!currentBuildStage}
+                                title="Copy the whole build order as text"
+                                className="ml-auto px-2 py-1 rounded bg-muted text-foreground hover:bg-muted/80 flex items-center gap-1 disabled:opacity-50"
+                            >
+                                {planCopied ? <Check className="h-3 w-3 text-green-500" /> : <Copy className="h-3 w-3" />}
+                                {planCopied ? 'Copied!' : 'Copy as Text'}
+                            </button>
+                            <button onClick={() => setShowBuildOrder(false)} className="p-0.5 rounded hover:bg-muted" title="Close build order">
+                                <X className="h-3 w-3 text-muted-foreground" />
+                            </button>
+                        </div>
+                        {currentBuildStage && (
+                            <>
+                                <div className="space-y-1">
+                                    {currentBuildStage.plant.length > 0 && (
+                                        <div><span className="text-green-400 font-medium">Plant:</span> {summarizePlacements(currentBuildStage.plant)}</div>
+                                    )}
+                                    {currentBuildStage.grow.length > 0 && (
+                                        <div><span className="text-accent font-medium">Wait to grow:</span> {summarizePlacements(currentBuildStage.grow)}</div>
+                                    )}
+                                    {currentBuildStage.recipes.map(recipe => (
+                                        <div key={recipe.placedId}>
+                                            <span className="text-primary font-medium">Make the {formatId(recipe.id)}:</span>
+                                            <ol className="list-decimal pl-4">
+                                                {recipe.steps.map((step, index) => <li key={index}>{step}</li>)}
+                                            </ol>
+                                        </div>
+                                    ))}
+                                    {currentBuildStage.remove.length > 0 && (
+                                        <div><span className="text-red-400 font-medium">Then remove:</span> {summarizePlacements(currentBuildStage.remove)}</div>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={() => setBuildStage(buildStageIndex - 1)}
+                                        disabled={buildStageIndex === 0}
+                                        className="px-2 py-1 rounded text-[10px] bg-muted border border-border disabled:opacity-50"
+                                    >
+                                        Back
+                                    </button>
+                                    <button
+                                        onClick={() => setBuildStage(buildStageIndex + 1)}
+                                        disabled={buildStageIndex === buildPlan.length - 1}
+                                        className="ml-auto px-2 py-1 rounded text-[10px] bg-muted border border-border disabled:opacity-50"
+                                    >
+                                        Next
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {violations.length > 0 && !isEditingGrid && (
+                    <div className="flex flex-col gap-1 px-3 py-2 bg-card border border-border rounded-xl text-[10px]">
+                        {violations.slice(0, MAX_LISTED_VIOLATIONS).map((violation, i) => (
+                            <div key={i} className={`flex items-center gap-2 ${isMissingViolation(violation) ? 'text-amber-400' : 'text-red-400'}`}>
+                                <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                                {formatViolation(violation)}
+                            </div>
+                        ))}
+                        {violations.length > MAX_LISTED_VIOLATIONS && (
+                            <div className="text-muted-foreground">+{violations.length - MAX_LISTED_VIOLATIONS} more</div>
+                        )}
+                    </div>
+                )}
+
                 <div className="bg-card border border-border rounded-xl p-3">
                     <h4 className="font-bold text-xs text-foreground mb-2 flex items-center gap-2">
                         <Info className="h-3.5 w-3.5" />
@@ -884,6 +1471,9 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                         <div className="flex items-center justify-between"><span className="text-green-400">Improved boost</span><span className="text-green-400">+30%</span></div>
                         <div className="flex items-center justify-between"><span className="text-emerald-400">Harvest boost</span><span className="text-emerald-400">+20%</span></div>
                         <div className="flex items-center justify-between"><span className="text-red-400">Harvest loss</span><span className="text-red-400">-20%</span></div>
+                        <div className="flex items-center justify-between"><span className="text-cyan-400">Water retain</span><span className="text-cyan-400">+20/30%</span></div>
+                        <div className="flex items-center justify-between"><span className="text-lime-400">XP boost</span><span className="text-lime-400">+20/30%</span></div>
+                        <div className="flex items-center justify-between"><span className="text-orange-400">Drain / XP loss</span><span className="text-orange-400">-20%</span></div>
                         <div className="flex items-center justify-between"><span className="text-yellow-400">Immunity</span><span className="text-yellow-400">blocks neg</span></div>
                         <div className="flex items-center justify-between"><span className="text-blue-400">Effect spread</span><span className="text-blue-400">+1 range</span></div>
                         <div className="flex items-center justify-between"><span className="text-purple-400">Improved spread</span><span className="text-purple-400">+2 range</span></div>
@@ -1026,45 +1616,110 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                         </div>
 
                         <div className="grid grid-cols-2 gap-1">
+                            {OBJECTIVE_OPTIONS.map(({ type, label }) => (
+                                <button
+                                    key={type}
+                                    onClick={() => setObjectiveType(type)}
+                                    disabled={isRunning}
+                                    className={`px-2 py-1.5 rounded text-[10px] transition-all ${
+                                        objectiveType === type ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
+                                    } disabled:opacity-50`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {isTargetObjective && (
+                            <div className="p-2 rounded bg-muted/50 text-[10px]">
+                                {targetMutationId ? (
+                                    <div className="flex items-center gap-2">
+                                        <MutationIcon mutationId={targetMutationId} mutationName={MUTATIONS_DATA[targetMutationId]?.name || targetMutationId} size="small" />
+                                        <div className="min-w-0">
+                                            <div className="font-medium text-foreground truncate">{MUTATIONS_DATA[targetMutationId]?.name || targetMutationId}</div>
+                                            <div className="text-muted-foreground" title="Rough estimate: each copy with its whole dependency tree and crops; sharing can fit more, placement rules and ground often fit fewer">
+                                                ~{targetCapacity} {targetCapacity === 1 ? 'copy fits' : 'copies fit'} in {unlockedCount} slots
+                                            </div>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div className="flex items-center gap-1 text-muted-foreground">
+                                        <Target className="h-3 w-3" />
+                                        Select a mutation in the palette and set it as the target
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {plots.length > 1 && (
                             <button
-                                onClick={() => setObjectiveType('MAX_MUTATIONS')}
+                                onClick={() => setGardenMode(!gardenMode)}
                                 disabled={isRunning}
-                                className={`px-2 py-1.5 rounded text-[10px] transition-all ${
-                                    objectiveType === 'MAX_MUTATIONS' ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
+                                title="Optimize every plot, sharing the selected counts across the garden"
+                                className={`w-full px-2 py-1.5 rounded text-[10px] flex items-center justify-center gap-1 transition-all ${
+                                    gardenMode ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
                                 } disabled:opacity-50`}
                             >
-                                Max Mutations
+                                <Grid3X3 className="h-3 w-3" />
+                                Whole Garden ({plots.length} plots) {gardenMode && <CheckSquare className="h-3 w-3" />}
                             </button>
+                        )}
+
+                        <button
+                            onClick={() => setInfiniteMode(!infiniteMode)}
+                            disabled={isRunning || isGardenRun}
+                            className={`w-full px-2 py-1.5 rounded text-[10px] flex items-center justify-center gap-1 transition-all ${
+                                infiniteMode ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white' : 'bg-muted text-foreground'
+                            } disabled:opacity-50`}
+                        >
+                            <Infinity className="h-3 w-3" />
+                            Infinite Mode {infiniteMode && <CheckSquare className="h-3 w-3" />}
+                        </button>
+
+                        {infiniteMode && (
                             <button
-                                onClick={() => setObjectiveType('MAX_PROFIT')}
+                                onClick={() => setParallelMode(!parallelMode)}
                                 disabled={isRunning}
-                                className={`px-2 py-1.5 rounded text-[10px] transition-all ${
-                                    objectiveType === 'MAX_PROFIT' ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
+                                title="Run one replica per CPU core at different temperatures; neighbouring replicas trade layouts"
+                                className={`w-full px-2 py-1.5 rounded text-[10px] flex items-center justify-center gap-1 transition-all ${
+                                    parallelMode ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white' : 'bg-muted text-foreground'
                                 } disabled:opacity-50`}
                             >
-                                Max Profit
+                                <Cpu className="h-3 w-3" />
+                                Parallel Tempering {parallelMode && <CheckSquare className="h-3 w-3" />}
                             </button>
-                        </div>
+                        )}
 
                         <button
-                            onClick={() => setInfiniteMode(!infiniteMode)}
+                            onClick={() => setWarmStart(!warmStart)}
                             disabled={isRunning}
+                            title="Start from the layout currently on the grid instead of an empty one"
                             className={`w-full px-2 py-1.5 rounded text-[10px] flex items-center justify-center gap-1 transition-all ${
-                                infiniteMode ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white' : 'bg-muted text-foreground'
+                                warmStart ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
                             } disabled:opacity-50`}
                         >
-                            <Infinity className="h-3 w-3" />
-                            Infinite Mode {infiniteMode && <CheckSquare className="h-3 w-3" />}
+                            <RotateCcw className="h-3 w-3" />
+                            Start From Grid {warmStart && <CheckSquare className="h-3 w-3" />}
                         </button>
 
+                        <input
+                            type="number"
+                            min="0"
+                            value={seedInput}
+                            onChange={(e) => setSeedInput(e.target.value)}
+                            disabled={isRunning}
+                            placeholder="Seed (random)"
+                            className="w-full px-2 py-1 bg-card border border-border rounded text-[10px] disabled:opacity-50"
+                        />
+
                         {!isRunning ? (
                             <button
                                 onClick={runOptimizer}
-                                disabled={Object.keys(selectedMutationCounts).length === 0 || unlockedCount === 0}
+                                disabled={!canRunOptimizer || unlockedCount === 0}
                                 className="w-full px-3 py-2 rounded-lg bg-primary text-primary-foreground text-xs font-medium flex items-center justify-center gap-2 hover:bg-primary/90 disabled:opacity-50"
                             >
                                 <Play className="h-3.5 w-3.5" />
-                                {infiniteMode ? 'Start Infinite' : 'Run Optimizer'}
+                                {isGardenRun ? 'Optimize Garden' : infiniteMode ? (parallelMode ? 'Start Parallel' : 'Start Infinite') : 'Run Optimizer'}
                             </button>
                         ) : (
                             <button
@@ -1079,23 +1734,48 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                         {isRunning && progress && (
                             <div className="space-y-1">
                                 <div className="flex justify-between text-[10px] text-muted-foreground">
-                                    <span>{infiniteMode ? `Batch ${Math.floor(totalIterations / 5000) + 1}` : 'Progress'}</span>
-                                    <span>{infiniteMode ? `${totalIterations.toLocaleString()} total` : `${Math.round((progress.iteration / progress.maxIterations) * 100)}%`}</span>
+                                    <span>{gardenPlotIndex !== null ? `Plot ${gardenPlotIndex + 1} of ${plots.length}` : infiniteMode ? `Batch ${Math.floor(totalIterations / 5000) + 1}` : 'Progress'}</span>
+                                    <span>{infiniteMode && !isGardenRun ? `${totalIterations.toLocaleString()} total` : `${Math.round((progress.iteration / progress.maxIterations) * 100)}%`}</span>
                                 </div>
                                 <div className="h-1.5 bg-muted rounded-full overflow-hidden">
                                     <div
                                         className="h-full bg-primary transition-all"
-                                        style={{ width: infiniteMode ? '100%' : `${(progress.iteration / progress.maxIterations) * 100}%` }}
+                                        style={{ width: infiniteMode && !isGardenRun ? '100%' : `${(progress.iteration / progress.maxIterations) * 100}%` }}
                                     />
                                 </div>
                                 <div className="flex justify-between text-[10px]">
                                     <span className="text-muted-foreground">Best: <span className="text-green-500 font-medium">{progress.bestScore.toFixed(1)}</span></span>
                                     <span className="text-muted-foreground">Placed: <span className="text-foreground font-medium">{progress.placedMutationsCount}</span></span>
                                 </div>
+                                {progress.acceptanceRatio !== undefined && (
+                                    <div className="flex justify-between text-[10px] text-muted-foreground">
+                                        <span>Accepting: <span className="text-foreground font-medium">{Math.round(progress.acceptanceRatio * 100)}%</span></span>
+                                        <span>Reheats: <span className="text-foreground font-medium">{progress.reheats ?? 0}</span></span>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {isRunning && replicaProgress && (
+                            <div className="space-y-0.5 text-[10px]">
+                                <div className="grid grid-cols-4 text-muted-foreground">
+                                    <span>Replica</span>
+                                    <span className="text-right">Temp</span>
+                                    <span className="text-right">Current</span>
+                                    <span className="text-right">Best</span>
+                                </div>
+                                {replicaProgress.map(replica => (
+                                    <div key={replica.replica} className="grid grid-cols-4 font-mono">
+                                        <span className="text-muted-foreground">#{replica.replica + 1}</span>
+                                        <span className="text-right">{replica.temperature.toFixed(1)}</span>
+                                        <span className="text-right">{formatReplicaScore(replica.currentScore)}</span>
+                                        <span className="text-right text-green-500">{formatReplicaScore(replica.bestScore)}</span>
+                                    </div>
+                                ))}
                             </div>
                         )}
 
-                        {isRunning && !progress && (
+                        {isRunning && !progress && !replicaProgress && (
                             <div className="flex items-center justify-center py-2">
                                 <Loader2 className="h-4 w-4 animate-spin text-primary" />
                                 <span className="ml-2 text-[10px] text-muted-foreground">Starting...</span>
@@ -1106,14 +1786,41 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                             <div className="space-y-2 pt-2 border-t border-border">
                                 <div className="grid grid-cols-2 gap-1 text-[10px]">
                                     <div className="bg-muted/50 rounded p-1.5 text-center">
-                                        <div className="text-muted-foreground">Score</div>
-                                        <div className="font-bold text-foreground">{result.bestScore.toFixed(1)}</div>
+                                        <div className="text-muted-foreground">{isTargetObjective ? 'Copies' : 'Score'}</div>
+                                        <div className="font-bold text-foreground">{isTargetObjective ? Math.round(result.bestScore) : result.bestScore.toFixed(1)}</div>
                                     </div>
                                     <div className="bg-muted/50 rounded p-1.5 text-center">
                                         <div className="text-muted-foreground">Mutations</div>
                                         <div className="font-bold text-foreground">{result.state.placedMutations.size}</div>
                                     </div>
                                 </div>
+                                {result.optimal && (
+                                    <div
+                                        className="flex items-center justify-center gap-1 p-1.5 rounded bg-green-500/10 border border-green-500/30 text-[10px] text-green-500"
+                                        title="An exhaustive search found no better layout for this plot"
+                                    >
+                                        <CheckSquare className="h-3 w-3" />
+                                        Proven optimal
+                                    </div>
+                                )}
+                                                                {result.targets?.some(t => !t.met) && (
+                                    <div className="p-1.5 rounded bg-yellow-500/10 border border-yellow-500/30 text-[10px] text-yellow-500 space-y-0.5">
+                                        {result.targets.filter(t => !t.met).map(t => (
+                                            <div key={t.mutationId} className="flex items-center gap-1">
+                                                <AlertTriangle className="h-3 w-3 shrink-0" />
+                                                <span className="truncate">{MUTATIONS_DATA[t.mutationId]?.name ?? t.mutationId}</span>
+                                                <span className="ml-auto font-mono">{t.count}/{t.min}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                <button
+                                    onClick={() => setSeedInput(String(result.seed))}
+                                    title="Reuse this seed to reproduce the layout"
+                                    className="w-full text-[10px] text-muted-foreground hover:text-foreground"
+                                >
+                                    Seed: <span className="font-mono">{result.seed}</span>
+                                </button>
                                 <button
                                     onClick={applyOptimizedLayout}
                                     className="w-full px-3 py-2 rounded-lg bg-green-600 text-white text-xs font-medium hover:bg-green-700"
@@ -1123,7 +1830,57 @@ export function CustomDesigner({ unlockedSlots, setUnlockedSlots, resetSlots, un
                             </div>
                         )}
 
-                        {Object.keys(selectedMutationCounts).length === 0 && (
+                        {gardenResult && !isRunning && (
+                            <div className="space-y-2 pt-2 border-t border-border">
+                                <div className="grid grid-cols-2 gap-1 text-[10px]">
+                                    <div className="bg-muted/50 rounded p-1.5 text-center">
+                                        <div className="text-muted-foreground">{isTargetObjective ? 'Garden Copies' : 'Garden Score'}</div>
+                                        <div className="font-bold text-foreground">{isTargetObjective ? Math.round(gardenResult.totalScore) : gardenResult.totalScore.toFixed(1)}</div>
+                                    </div>
+                                    <div className="bg-muted/50 rounded p-1.5 text-center">
+                                        <div className="text-muted-foreground">Mutations</div>
+                                        <div className="font-bold text-foreground">{gardenResult.plots.reduce((total, plot) => total + plot.mutationCount, 0)}</div>
+                                    </div>
+                                </div>
+                                <div className="space-y-0.5 text-[10px]">
+                                    <div className="grid grid-cols-3 text-muted-foreground">
+                                        <span>Plot</span>
+                                        <span className="text-right">Mutations</span>
+                                        <span className="text-right">Score</span>
+                                    </div>
+                                    {gardenResult.plots.map(plot => (
+                                        <button
+                                            key={plot.plotId}
+                                            onClick={() => switchPlot(plot.plotId)}
+                                            className={`w-full grid grid-cols-3 font-mono rounded hover:bg-muted/50 ${plot.plotId === activePlotId ? 'text-primary' : ''}`}
+                                        >
+                                            <span className="text-left font-sans truncate">{plot.name || 'Untitled'}</span>
+                                            <span className="text-right">{plot.mutationCount}</span>
+                                            <span className="text-right text-green-500">{isTargetObjective ? Math.round(plot.score) : plot.score.toFixed(1)}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                                {gardenResult.targets?.some(t => !t.met) && (
+                                    <div className="p-1.5 rounded bg-yellow-500/10 border border-yellow-500/30 text-[10px] text-yellow-500 space-y-0.5">
+                                        {gardenResult.targets.filter(t => !t.met).map(t => (
+                                            <div key={t.mutationId} className="flex items-center gap-1">
+                                                <AlertTriangle className="h-3 w-3 shrink-0" />
+                                                <span className="truncate">{MUTATIONS_DATA[t.mutationId]?.name ?? t.mutationId}</span>
+                                                <span className="ml-auto font-mono">{t.count}/{t.min}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                <button
+                                    onClick={applyGardenLayout}
+                                    className="w-full px-3 py-2 rounded-lg bg-green-600 text-white text-xs font-medium hover:bg-green-700"
+                                >
+                                    Apply to Garden
+                                </button>
+                            </div>
+                        )}
+
+                        {!canRunOptimizer && !isTargetObjective && (
                             <p className="text-[10px] text-muted-foreground text-center py-2">
                                 Select mutations above to optimize
                             </p>
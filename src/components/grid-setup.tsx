@@ -1,4 +1,5 @@
 import { useState } from "react"
+import { getGridSize } from "@utils/optimizer"
 
 interface GridSetupProps {
   unlockedSlots: boolean[][]
@@ -11,6 +12,7 @@ export function GridSetup({ unlockedSlots, setUnlockedSlots, resetSlots }: GridS
   const [dragMode, setDragMode] = useState<"lock" | "unlock">("unlock")
 
   const unlockedCount = unlockedSlots.flat().filter(Boolean).length
+  const { width, height } = getGridSize(unlockedSlots)
 
   const handleSlotClick = (row: number, col: number) => {
     const newGrid = unlockedSlots.map((r, i) => r.map((slot, j) => (i === row && j === col ? !slot : slot)))
@@ -43,17 +45,17 @@ export function GridSetup({ unlockedSlots, setUnlockedSlots, resetSlots }: GridS
 
   const unlockAll = () => {
     setUnlockedSlots(
-      Array(10)
+      Array(height)
         .fill(null)
-        .map(() => Array(10).fill(true)),
+        .map(() => Array(width).fill(true)),
     )
   }
 
   const lockAll = () => {
     setUnlockedSlots(
-      Array(10)
+      Array(height)
         .fill(null)
-        .map(() => Array(10).fill(false)),
+        .map(() => Array(width).fill(false)),
     )
   }
 
@@ -62,7 +64,7 @@ export function GridSetup({ unlockedSlots, setUnlockedSlots, resetSlots }: GridS
       <div className="flex items-center justify-between">
         <div className="text-base">
           <span className="font-bold text-xl text-primary">{unlockedCount}</span>
-          <span className="text-muted-foreground ml-2">/ 100 slots</span>
+          <span className="text-muted-foreground ml-2">/ {width * height} slots</span>
         </div>
         <div className="flex gap-2">
           <button
@@ -87,7 +89,10 @@ export function GridSetup({ unlockedSlots, setUnlockedSlots, resetSlots }: GridS
       </div>
 
       <div className="flex justify-center py-4" onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}>
-        <div className="inline-grid grid-cols-10 gap-3 p-6 bg-card border border-border rounded-xl">
+        <div
+          className="inline-grid gap-3 p-6 bg-card border border-border rounded-xl"
+          style={{ gridTemplateColumns: `repeat(${width}, minmax(0, 1fr))` }}
+        >
           {unlockedSlots.map((row, rowIndex) =>
             row.map((unlocked, colIndex) => (
               <button
@@ -2,6 +2,8 @@ import type React from "react"
 import { useState } from "react"
 import type { MutationData } from "@/lib/mutation-data"
 import { getMutation } from "@/lib/mutation-data"
+import { MUTATIONS_DATA } from "@/data/mutationsData"
+import { describeRecipeStep } from "@utils/optimizer"
 import { MutationIcon } from "./icons/MutationIcon"
 import { CropIcon } from "./icons/CropIcon"
 
@@ -37,7 +39,26 @@ export function MutationTooltip({ mutation, children }: MutationTooltipProps) {
             </div>
           )}
 
-          {mutation.requirements.length > 0 ? (
+          {mutation.recipe ? (
+            <div className="mb-2">
+              <div className="text-xs font-medium text-muted-foreground mb-2">Recipe: {mutation.recipe.description}</div>
+              <ol className="space-y-1.5">
+                {mutation.recipe.steps.map((step, idx) => (
+                  <li key={idx} className="flex items-center gap-2 p-2 bg-card border border-border rounded-lg">
+                    <span className="text-sm font-bold text-primary">{idx + 1}</span>
+                    {step.type === 'mutation' && (
+                      <MutationIcon
+                        mutationId={step.mutationId}
+                        mutationName={MUTATIONS_DATA[step.mutationId]?.name || step.mutationId}
+                        size="small"
+                      />
+                    )}
+                    <span className="text-sm text-foreground">{describeRecipeStep(step)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : mutation.requirements.length > 0 ? (
             <div className="mb-2">
               <div className="text-xs font-medium text-muted-foreground mb-2">Requirements</div>
               <div className="space-y-1.5">
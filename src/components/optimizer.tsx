@@ -1,7 +1,7 @@
 import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { Play, Square, Zap, Clock, Target, TrendingUp, Loader2, RotateCcw, CheckSquare, Square as SquareIcon, Leaf, Infinity } from 'lucide-react';
 import {OptimizerConfig, OptimizerProgress, OptimizerResult, ObjectiveType, MutationData} from '@types';
-import { optimizeLayout, DEFAULT_CONFIG, QUICK_CONFIG, THOROUGH_CONFIG, getScoreBreakdown } from '@utils/optimizer';
+import { optimizeLayout, DEFAULT_CONFIG, QUICK_CONFIG, THOROUGH_CONFIG, getScoreBreakdown, getGridSize } from '@utils/optimizer';
 import { MutationIcon } from '@components/icons/MutationIcon';
 import { CropIcon } from '@components/icons/CropIcon';
 import { getMutationData } from '@data/mutationsData';
@@ -98,6 +98,7 @@ export function Optimizer({ unlockedSlots, unlockedMutations }: OptimizerProps)
   }, [unlockedSlots]);
 
   const unlockedCount = unlockedSlotsSet.size;
+  const gridSize = useMemo(() => getGridSize(unlockedSlots), [unlockedSlots]);
 
   const toggleMutation = (id: string) => {
     setSelectedMutations(prev => {
@@ -125,11 +126,12 @@ export function Optimizer({ unlockedSlots, unlockedMutations }: OptimizerProps)
         maxIterations: customIterations,
         startTemperature: customTemperature,
         coolingRate: customCooling,
-        objectiveType
+        objectiveType,
+        gridSize
       };
     }
-    return { ...PRESET_CONFIGS[preset]!, objectiveType };
-  }, [preset, objectiveType, customIterations, customTemperature, customCooling]);
+    return { ...PRESET_CONFIGS[preset]!, objectiveType, gridSize };
+  }, [preset, objectiveType, gridSize, customIterations, customTemperature, customCooling]);
 
   // Continuous optimization for infinite mode
   const runInfiniteBatch = useCallback(() => {
@@ -138,7 +140,7 @@ export function Optimizer({ unlockedSlots, unlockedMutations }: OptimizerProps)
       return;
     }
 
-    const config = { ...INFINITE_MODE_CONFIG, objectiveType };
+    const config = { ...INFINITE_MODE_CONFIG, objectiveType, gridSize };
 
     const batchResult = optimizeLayout(
       unlockedSlotsSet,
@@ -174,7 +176,7 @@ export function Optimizer({ unlockedSlots, unlockedMutations }: OptimizerProps)
 
     // Schedule next batch
     setTimeout(() => runInfiniteBatch(), 10);
-  }, [unlockedSlotsSet, selectedMutations, objectiveType, totalIterations]);
+  }, [unlockedSlotsSet, selectedMutations, objectiveType, gridSize, totalIterations]);
 
   const runOptimizer = useCallback(() => {
     if (selectedMutations.size === 0) {
@@ -275,9 +277,9 @@ export function Optimizer({ unlockedSlots, unlockedMutations }: OptimizerProps)
     const { state } = result;
     const grid: React.ReactNode[][] = [];
 
-    for (let y = 0; y < 10; y++) {
+    for (let y = 0; y < gridSize.height; y++) {
       const row: React.ReactNode[] = [];
-      for (let x = 0; x < 10; x++) {
+      for (let x = 0; x < gridSize.width; x++) {
         const isUnlocked = unlockedSlotsSet.has(`${y},${x}`);
         const cellContent = state.grid[y]?.[x];
 
@@ -336,7 +338,7 @@ export function Optimizer({ unlockedSlots, unlockedMutations }: OptimizerProps)
 
     return (
       <div className="inline-block bg-card rounded-xl p-4 border border-border">
-        <div className="grid gap-1" style={{ gridTemplateColumns: 'repeat(10, 1fr)' }}>
+        <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${gridSize.width}, 1fr)` }}>
           {grid.flat()}
         </div>
       </div>
@@ -556,6 +558,17 @@ export function Optimizer({ unlockedSlots, unlockedMutations }: OptimizerProps)
               <div className="font-medium">Max Profit</div>
               <div className="text-xs opacity-80">Maximize drops and positive effects</div>
             </button>
+            <button
+              onClick={() => setObjectiveType('MAX_YIELD')}
+              className={`w-full px-4 py-3 rounded-lg text-left transition-all ${
+                objectiveType === 'MAX_YIELD'
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-foreground hover:bg-muted/80'
+              }`}
+            >
+              <div className="font-medium">Max Yield</div>
+              <div className="text-xs opacity-80">Maximize boosted harvest across all crops</div>
+            </button>
           </div>
         </div>
 
@@ -746,6 +759,12 @@ export function Optimizer({ unlockedSlots, unlockedMutations }: OptimizerProps)
             </div>
             <span className="text-foreground font-medium w-16 text-right">{progress.temperature.toFixed(2)}</span>
           </div>
+          {progress.acceptanceRatio !== undefined && (
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Worsening moves accepted: <span className="text-foreground font-medium">{Math.round(progress.acceptanceRatio * 100)}%</span></span>
+              <span>Reheats: <span className="text-foreground font-medium">{progress.reheats ?? 0}</span></span>
+            </div>
+          )}
         </div>
       )}
 
@@ -1,4 +1,10 @@
-import type {BaseCrop, ExtraCondition, CropEmojis, CropGroundRequirements, TierColor} from '@types';
+import type {BaseCrop, ExtraCondition, CropEmojis, CropGroundRequirements, GridSize, GroundType, SpecialRecipe, TierColor} from '@types';
+
+// Size of a standard garden plot
+export const DEFAULT_GRID_SIZE: GridSize = { width: 10, height: 10 };
+
+// Largest plot side the designer offers
+export const MAX_GRID_DIMENSION = 20;
 
 export const BASE_CROPS: BaseCrop[] = [
     'wheat', 'potato', 'carrot', 'pumpkin', 'melon', 'cocoa_beans', 'sugar_cane',
@@ -31,6 +37,37 @@ export const CROP_GROUND_REQUIREMENTS: CropGroundRequirements = {
     'fermento': 'any'
 };
 
+// Ground blocks that can be painted in the designer
+export const GROUND_TYPES: Exclude<GroundType, 'any'>[] = ['farmland', 'soul_sand', 'mycelium', 'sand', 'end_stone'];
+
+export const GROUND_COLORS: Record<GroundType, string> = {
+    'farmland': '#7c4a1e',
+    'soul_sand': '#4b3a2f',
+    'mycelium': '#6b5b7b',
+    'sand': '#d8c98f',
+    'end_stone': '#e3e4a8',
+    'any': '#52525b'
+};
+
+// Multi-step procedures behind special mutation conditions, keyed by condition
+export const SPECIAL_RECIPES: Record<string, SpecialRecipe> = {
+    'explode_turtlellini_with_blastberry': {
+        description: 'Explode a Turtlellini with a Blastberry',
+        steps: [
+            {type: 'mutation', mutationId: 'turtlellini', placement: 'product'},
+            {type: 'mutation', mutationId: 'blastberry', placement: 'adjacent'},
+            {type: 'action', description: 'Set off the Blastberry; the Turtlellini caught in the blast becomes a Shellfruit'}
+        ]
+    },
+    'grow_the_jerryseed': {
+        description: 'Grow the Jerryseed',
+        steps: [
+            {type: 'item', itemId: 'jerryseed', name: 'Jerryseed'},
+            {type: 'action', description: 'Wait for the Jerryseed to grow into a Jerryflower'}
+        ]
+    }
+};
+
 export const TIER_COLORS: TierColor[] = [
     {bg: 'from-emerald-500/20 to-emerald-600/20', border: 'border-emerald-500/50', glow: 'shadow-emerald-500/20'},
     {bg: 'from-sky-500/20 to-sky-600/20', border: 'border-sky-500/50', glow: 'shadow-sky-500/20'},
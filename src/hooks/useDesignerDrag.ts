@@ -1,8 +1,52 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import type { CustomDesignGrid } from '@types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { CustomDesignCell, CustomDesignGrid, GroundType } from '@types';
+import { canPlaceFootprint, clearCellContent, getAnchorCell, getFootprintAnchors, updatePlacementAt } from '@utils/designGrid';
 
-type SelectedItem = { type: 'mutation' | 'crop'; id: string } | null;
-type DragMode = 'place' | 'remove' | null;
+type SelectedItem = { type: 'mutation' | 'crop' | 'ground' | 'pin'; id: string } | null;
+type DragMode = 'place' | 'remove' | 'paint' | 'pin' | 'unpin' | null;
+
+function placeSelectedItem(cell: CustomDesignCell, selectedItem: NonNullable<SelectedItem>): CustomDesignCell {
+    if (selectedItem.type === 'ground') {
+        return { ...cell, ground: selectedItem.id as GroundType };
+    }
+    if (selectedItem.type === 'mutation') {
+        return { ...clearCellContent(cell), type: 'mutation', mutationId: selectedItem.id };
+    }
+    return { ...clearCellContent(cell), type: 'crop', cropType: selectedItem.id };
+}
+
+function setCellPinned(cell: CustomDesignCell, pinned: boolean): CustomDesignCell {
+    if (cell.type !== 'mutation' && cell.type !== 'crop') return cell;
+    return { ...cell, pinned: pinned || undefined };
+}
+
+// Paint a cell's ground; a multi-cell mutation shows as one tile, so its whole footprint is painted
+function paintGround(grid: CustomDesignGrid, row: number, col: number, selectedItem: NonNullable<SelectedItem>): CustomDesignGrid {
+    const anchors = getFootprintAnchors(grid);
+    const anchor = anchors.get(`${row},${col}`);
+    const cells = anchor
+        ? Array.from(anchors).filter(([, a]) => a === anchor).map(([key]) => key.split(',').map(Number))
+        : [[row, col]];
+
+    const newGrid = grid.map(r => r.map(c => ({ ...c })));
+    for (const [r, c] of cells) {
+        newGrid[r][c] = placeSelectedItem(newGrid[r][c], selectedItem);
+    }
+    return newGrid;
+}
+
+// Put the selected mutation or crop on a cell, unless it would cover anything else
+function placeIfRoom(grid: CustomDesignGrid, row: number, col: number, selectedItem: NonNullable<SelectedItem>): CustomDesignGrid {
+    const anchors = getFootprintAnchors(grid);
+    const fits = selectedItem.type === 'mutation'
+        ? canPlaceFootprint(grid, anchors, selectedItem.id, row, col)
+        : grid[row][col].type === 'empty' && !anchors.has(`${row},${col}`);
+    if (!fits) return grid;
+
+    const newGrid = grid.map(r => r.map(c => ({ ...c })));
+    newGrid[row][col] = placeSelectedItem(newGrid[row][col], selectedItem);
+    return newGrid;
+}
 
 export function useDesignerDrag(
     grid: CustomDesignGrid,
@@ -11,6 +55,7 @@ export function useDesignerDrag(
 ) {
     const [isDragging, setIsDragging] = useState(false);
     const [dragMode, setDragMode] = useState<DragMode>(null);
+    const anchors = useMemo(() => getFootprintAnchors(grid), [grid]);
 
     const handleCellMouseDown = useCallback((row: number, col: number) => {
         const cell = grid[row]?.[col];
@@ -18,27 +63,28 @@ export function useDesignerDrag(
 
         setIsDragging(true);
 
-        if (cell.type !== 'empty') {
-            // Cell is occupied - drag to remove
+        const [anchorRow, anchorCol] = getAnchorCell(anchors, row, col);
+        const placement = grid[anchorRow][anchorCol];
+
+        if (selectedItem?.type === 'pin') {
+            // The first cell decides whether the drag pins or unpins
+            if (placement.type === 'empty') return;
+            const pinned = !placement.pinned;
+            setDragMode(pinned ? 'pin' : 'unpin');
+            setGrid(prev => updatePlacementAt(prev, row, col, c => setCellPinned(c, pinned)));
+        } else if (selectedItem?.type === 'ground') {
+            // Ground painting never touches the cell's content
+            setDragMode('paint');
+            setGrid(prev => paintGround(prev, row, col, selectedItem));
+        } else if (placement.type !== 'empty') {
+            // Cell is occupied - drag to remove the whole placement
             setDragMode('remove');
-            setGrid(prev => {
-                const newGrid = prev.map(r => r.map(c => ({ ...c })));
-                newGrid[row][col] = { type: 'empty' };
-                return newGrid;
-            });
+            setGrid(prev => updatePlacementAt(prev, row, col, clearCellContent));
         } else if (selectedItem) {
             setDragMode('place');
-            setGrid(prev => {
-                const newGrid = prev.map(r => r.map(c => ({ ...c })));
-                if (selectedItem.type === 'mutation') {
-                    newGrid[row][col] = { type: 'mutation', mutationId: selectedItem.id };
-                } else {
-                    newGrid[row][col] = { type: 'crop', cropType: selectedItem.id };
-                }
-                return newGrid;
-            });
+            setGrid(prev => placeIfRoom(prev, row, col, selectedItem));
         }
-    }, [grid, selectedItem, setGrid]);
+    }, [grid, anchors, selectedItem, setGrid]);
 
     const handleCellMouseEnter = useCallback((row: number, col: number) => {
         if (!isDragging || !dragMode) return;
@@ -46,24 +92,16 @@ export function useDesignerDrag(
         const cell = grid[row]?.[col];
         if (!cell || cell.type === 'locked') return;
 
-        if (dragMode === 'remove' && cell.type !== 'empty') {
-            setGrid(prev => {
-                const newGrid = prev.map(r => r.map(c => ({ ...c })));
-                newGrid[row][col] = { type: 'empty' };
-                return newGrid;
-            });
-        } else if (dragMode === 'place' && cell.type === 'empty' && selectedItem) {
-            setGrid(prev => {
-                const newGrid = prev.map(r => r.map(c => ({ ...c })));
-                if (selectedItem.type === 'mutation') {
-                    newGrid[row][col] = { type: 'mutation', mutationId: selectedItem.id };
-                } else {
-                    newGrid[row][col] = { type: 'crop', cropType: selectedItem.id };
-                }
-                return newGrid;
-            });
+        if (dragMode === 'pin' || dragMode === 'unpin') {
+            setGrid(prev => updatePlacementAt(prev, row, col, c => setCellPinned(c, dragMode === 'pin')));
+        } else if (dragMode === 'remove' && (cell.type !== 'empty' || anchors.has(`${row},${col}`))) {
+            setGrid(prev => updatePlacementAt(prev, row, col, clearCellContent));
+        } else if (selectedItem && dragMode === 'paint') {
+            setGrid(prev => paintGround(prev, row, col, selectedItem));
+        } else if (selectedItem && dragMode === 'place') {
+            setGrid(prev => placeIfRoom(prev, row, col, selectedItem));
         }
-    }, [isDragging, dragMode, grid, selectedItem, setGrid]);
+    }, [isDragging, dragMode, grid, anchors, selectedItem, setGrid]);
 
     const handleMouseUp = useCallback(() => {
         setIsDragging(false);
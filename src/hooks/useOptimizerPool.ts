@@ -0,0 +1,210 @@
+import { useRef, useEffect, useCallback } from 'react';
+import type {
+    OptimizerConfig,
+    OptimizerResult,
+    OptimizerState,
+    OptimizerWorkerRequest,
+    OptimizerWorkerResponse,
+    ReplicaProgress
+} from '@types';
+import {
+    deserializeResult,
+    serializeState,
+    createRandom,
+    createSeed,
+    createReplicas,
+    exchangeReplicas,
+    EXCHANGE_INTERVAL
+} from '@utils/optimizer';
+
+interface PoolCallbacks {
+    onReplicaProgress?: (replicas: ReplicaProgress[]) => void;
+    onBest?: (result: OptimizerResult) => void;
+}
+
+export interface PoolRunOutcome {
+    result: OptimizerResult | null;
+    rounds: number;
+    swaps: number;
+}
+
+interface ReplicaRunOutcome {
+    result: OptimizerResult;
+    cancelled: boolean;
+}
+
+// Used when the browser doesn't report its core count
+const FALLBACK_POOL_SIZE = 4;
+
+function getPoolSize(): number {
+    // Replica exchange needs at least two replicas
+    return Math.max(2, navigator.hardwareConcurrency || FALLBACK_POOL_SIZE);
+}
+
+function createWorker(): Worker {
+    return new Worker(
+        new URL('../utils/optimizer/optimizer.worker.ts', import.meta.url),
+        { type: 'module' }
+    );
+}
+
+/**
+ * Run one round of a replica on a worker and wait for it to finish.
+ * Replicas report once per round, so the worker's own ticks are ignored.
+ */
+function runOnWorker(
+    worker: Worker,
+    request: Extract<OptimizerWorkerRequest, { type: 'start' }>
+): Promise<ReplicaRunOutcome> {
+    return new Promise((resolve, reject) => {
+        const handleMessage = (event: MessageEvent<OptimizerWorkerResponse>) => {
+            const message = event.data;
+            if (message.runId !== request.runId) return;
+
+            switch (message.type) {
+                case 'done':
+                    worker.removeEventListener('message', handleMessage);
+                    resolve({ result: deserializeResult(message.result), cancelled: message.cancelled });
+                    break;
+                case 'error':
+                    worker.removeEventListener('message', handleMessage);
+                    reject(new Error(message.message));
+                    break;
+            }
+        };
+        worker.addEventListener('message', handleMessage);
+        worker.postMessage(request);
+    });
+}
+
+/**
+ * Parallel tempering across a pool of optimizer workers, one replica per
+ * worker. Each round every replica anneals at its own fixed temperature,
+ * then neighbouring replicas may swap layouts. Runs until cancelled.
+ * A seed reproduces a run on machines with the same core count.
+ */
+export function useOptimizerPool() {
+    const workersRef = useRef<Worker[]>([]);
+    const runIdRef = useRef(0);
+    const activeRunIdsRef = useRef<number[]>([]);
+    const cancelledRef = useRef(false);
+    // Ends the run in progress at once, keeping its best so far
+    const abandonRef = useRef<(() => void) | null>(null);
+
+    const getWorkers = useCallback((): Worker[] => {
+        if (workersRef.current.length === 0) {
+            workersRef.current = Array.from({ length: getPoolSize() }, createWorker);
+        }
+        return workersRef.current;
+    }, []);
+
+    const cancel = useCallback(() => {
+        cancelledRef.current = true;
+        workersRef.current.forEach((worker, i) => {
+            const runId = activeRunIdsRef.current[i];
+            if (runId !== undefined) worker.postMessage({ type: 'cancel', runId } satisfies OptimizerWorkerRequest);
+        });
+    }, []);
+
+    const run = useCallback(async (
+        unlockedSlots: Set<string>,
+        availableMutations: string[],
+        config: OptimizerConfig,
+        callbacks: PoolCallbacks = {},
+        initialState?: OptimizerState
+    ): Promise<PoolRunOutcome> => {
+        // Only one run at a time: a superseded run is cancelled and settles right away
+        if (abandonRef.current) {
+            cancel();
+            abandonRef.current();
+        }
+        cancelledRef.current = false;
+
+        let abandon: () => void = () => {};
+        const abandoned = new Promise<null>(resolve => { abandon = () => resolve(null); });
+        abandonRef.current = abandon;
+
+        const workers = getWorkers();
+        const seed = config.seed ?? createSeed();
+        const random = createRandom(seed);
+        const replicas = createReplicas(workers.length, config.startTemperature);
+        replicas.forEach(replica => { replica.state = initialState; });
+
+        const live: ReplicaProgress[] = replicas.map((replica, i) => ({
+            replica: i,
+            temperature: replica.temperature,
+            currentScore: -Infinity,
+            bestScore: -Infinity
+        }));
+        let best: OptimizerResult | null = null;
+        let iterations = 0;
+        let rounds = 0;
+        let swaps = 0;
+
+        while (!cancelledRef.current) {
+            const outcomes = await Promise.race([abandoned, Promise.all(replicas.map((replica, i) => {
+                const runId = ++runIdRef.current;
+                activeRunIdsRef.current[i] = runId;
+                return runOnWorker(workers[i], {
+                    type: 'start',
+                    runId,
+                    unlockedSlots: Array.from(unlockedSlots),
+                    availableMutations,
+                    // A constant temperature per replica; the ladder does the cooling
+                    config: {
+                        ...config,
+                        maxIterations: EXCHANGE_INTERVAL,
+                        startTemperature: replica.temperature,
+                        coolingRate: 1,
+                        schedule: 'fixed',
+                        seed: (seed + rounds * replicas.length + i) >>> 0,
+                        exact: false
+                    },
+                    initialState: replica.state && serializeState(replica.state)
+                });
+            }))]);
+            if (!outcomes) break;
+            activeRunIdsRef.current = [];
+
+            for (const [i, { result }] of outcomes.entries()) {
+                iterations += result.iterations;
+                replicas[i].state = result.finalState;
+                replicas[i].score = result.finalScore;
+                live[i] = { ...live[i], bestScore: Math.max(live[i].bestScore, result.bestScore) };
+
+                if (!best || result.bestScore > best.bestScore) {
+                    best = { ...result, finalState: undefined, seed };
+                    callbacks.onBest?.({ ...best, iterations });
+                }
+            }
+            rounds++;
+
+            if (!outcomes.some(outcome => outcome.cancelled)) {
+                swaps += exchangeReplicas(replicas, rounds, random);
+            }
+            // Scores follow the layouts the replicas now hold
+            replicas.forEach((replica, i) => {
+                live[i] = { ...live[i], currentScore: replica.score };
+            });
+            callbacks.onReplicaProgress?.([...live]);
+            if (outcomes.some(outcome => outcome.cancelled)) break;
+        }
+
+        if (abandonRef.current === abandon) abandonRef.current = null;
+        return { result: best && { ...best, iterations }, rounds, swaps };
+    }, [getWorkers, cancel]);
+
+    useEffect(() => {
+        return () => {
+            workersRef.current.forEach(worker => worker.terminate());
+            workersRef.current = [];
+            abandonRef.current?.();
+            abandonRef.current = null;
+        };
+    }, []);
+
+    return {
+        run,
+        cancel
+    };
+}
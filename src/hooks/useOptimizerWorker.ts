@@ -0,0 +1,136 @@
+import { useRef, useEffect, useCallback } from 'react';
+import type {
+    OptimizerConfig,
+    OptimizerProgress,
+    OptimizerResult,
+    OptimizerState,
+    OptimizerWorkerRequest,
+    OptimizerWorkerResponse
+} from '@types';
+import { deserializeResult, serializeState, validateLayout } from '@utils/optimizer';
+
+interface RunCallbacks {
+    onProgress?: (progress: OptimizerProgress) => void;
+    onBest?: (result: OptimizerResult) => void;
+}
+
+export interface WorkerRunOutcome {
+    // Null when the run was abandoned before reporting a valid layout
+    result: OptimizerResult | null;
+    cancelled: boolean;
+}
+
+interface PendingRun extends RunCallbacks {
+    runId: number;
+    unlockedSlots: Set<string>;
+    // Latest intermediate best that passed validation
+    best: OptimizerResult | null;
+    resolve: (outcome: WorkerRunOutcome) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Settle a run the worker will no longer report on with its best valid layout
+ */
+function abandonRun(pending: PendingRun): void {
+    pending.resolve({ result: pending.best, cancelled: true });
+}
+
+export function useOptimizerWorker() {
+    const workerRef = useRef<Worker | null>(null);
+    const pendingRef = useRef<PendingRun | null>(null);
+    const runIdRef = useRef(0);
+
+    const handleMessage = useCallback((event: MessageEvent<OptimizerWorkerResponse>) => {
+        const message = event.data;
+        const pending = pendingRef.current;
+        // Ignore messages from runs that have since been replaced
+        if (!pending || message.runId !== pending.runId) return;
+
+        switch (message.type) {
+            case 'progress':
+                pending.onProgress?.(message.progress);
+                break;
+            case 'best': {
+                // Intermediate layouts skip the final clean-up, so only valid ones are passed on
+                const best = deserializeResult(message.result);
+                if (validateLayout(best.state, pending.unlockedSlots).length > 0) break;
+                pending.best = best;
+                pending.onBest?.(best);
+                break;
+            }
+            case 'done':
+                pendingRef.current = null;
+                pending.resolve({ result: deserializeResult(message.result), cancelled: message.cancelled });
+                break;
+            case 'error':
+                pendingRef.current = null;
+                pending.reject(new Error(message.message));
+                break;
+        }
+    }, []);
+
+    const getWorker = useCallback((): Worker => {
+        if (!workerRef.current) {
+            workerRef.current = new Worker(
+                new URL('../utils/optimizer/optimizer.worker.ts', import.meta.url),
+                { type: 'module' }
+            );
+            workerRef.current.onmessage = handleMessage;
+        }
+        return workerRef.current;
+    }, [handleMessage]);
+
+    const post = useCallback((request: OptimizerWorkerRequest) => {
+        getWorker().postMessage(request);
+    }, [getWorker]);
+
+    const cancel = useCallback(() => {
+        const pending = pendingRef.current;
+        if (pending) {
+            post({ type: 'cancel', runId: pending.runId });
+        }
+    }, [post]);
+
+    const run = useCallback((
+        unlockedSlots: Set<string>,
+        availableMutations: string[],
+        config: OptimizerConfig,
+        callbacks: RunCallbacks = {},
+        initialState?: OptimizerState
+    ): Promise<WorkerRunOutcome> => {
+        // Only one run at a time: a superseded run is cancelled and settles right away
+        const superseded = pendingRef.current;
+        if (superseded) {
+            cancel();
+            abandonRun(superseded);
+        }
+
+        const runId = ++runIdRef.current;
+        return new Promise<WorkerRunOutcome>((resolve, reject) => {
+            pendingRef.current = { runId, unlockedSlots, best: null, resolve, reject, ...callbacks };
+            post({
+                type: 'start',
+                runId,
+                unlockedSlots: Array.from(unlockedSlots),
+                availableMutations,
+                config,
+                initialState: initialState && serializeState(initialState)
+            });
+        });
+    }, [cancel, post]);
+
+    useEffect(() => {
+        return () => {
+            workerRef.current?.terminate();
+            workerRef.current = null;
+            if (pendingRef.current) abandonRun(pendingRef.current);
+            pendingRef.current = null;
+        };
+    }, []);
+
+    return {
+        run,
+        cancel
+    };
+}
@@ -1,6 +1,7 @@
 import { MUTATIONS_DATA } from '@data/mutationsData';
+import { SPECIAL_RECIPES } from '@data/constants';
 import { MUTATION_TIERS } from '@utils/tierUtils';
-import type { MutationData as RawMutationData } from '@types';
+import type { MutationData as RawMutationData, SpecialRecipe } from '@types';
 
 export interface MutationData {
   id: string;
@@ -8,6 +9,7 @@ export interface MutationData {
   tier: number;
   ground: string;
   requirements: Array<{ plant: string; count: number }>;
+  recipe?: SpecialRecipe;
   size: string;
 }
 
@@ -27,6 +29,7 @@ function transformMutationData(id: string, raw: RawMutationData): MutationData {
     tier: MUTATION_TIERS[id] || 0,
     ground: raw.ground,
     requirements,
+    recipe: raw.conditions.special ? SPECIAL_RECIPES[raw.conditions.special] : undefined,
     size: raw.size,
   };
 }
@@ -9,6 +9,9 @@ export type Crop = BaseCrop | ExtraCondition;
 
 export type GroundType = 'farmland' | 'soul_sand' | 'mycelium' | 'sand' | 'end_stone' | 'any';
 
+// Ground block per cell, keyed "row,col" like unlocked slots; missing cells are farmland
+export type GroundMap = Record<string, GroundType>;
+
 export interface MutationConditions {
   special?: string;
   adjacent_crops?: number;
@@ -26,6 +29,24 @@ export interface MutationData {
 
 export type MutationsData = Record<string, MutationData>;
 
+/**
+ * One step of a special condition's recipe:
+ * - mutation: grow a mutation, with its own requirements, on the product's
+ *   cell or next to it
+ * - item: plant an item obtained outside the garden on the product's cell
+ * - action: something the player does once the layout is in place
+ */
+export type RecipeStep =
+  | { type: 'mutation'; mutationId: string; placement: 'product' | 'adjacent' }
+  | { type: 'item'; itemId: string; name: string }
+  | { type: 'action'; description: string };
+
+export interface SpecialRecipe {
+  description: string;
+  // In the order the player carries them out
+  steps: RecipeStep[];
+}
+
 export type MutationTiers = Record<string, number>;
 
 export type CropEmojis = Record<ExtraCondition, string> & { [key: string]: string };
@@ -100,23 +121,40 @@ export interface CustomDesignCell {
   type: 'empty' | 'locked' | 'mutation' | 'crop';
   mutationId?: string;
   cropType?: string;
+  ground?: GroundType;
+  // Kept in place by the optimizer
+  pinned?: boolean;
 }
 
 export type CustomDesignGrid = CustomDesignCell[][];
 
+// One plot of a garden in the designer: its slot mask and the layout on it
+export interface CustomDesignPlot {
+  id: string;
+  name: string;
+  unlockedSlots: boolean[][];
+  grid: CustomDesignGrid;
+}
+
 // ============================================
 // Optimizer Types
 // ============================================
 
-export type ObjectiveType = 'MAX_MUTATIONS' | 'MAX_PROFIT';
+export type ObjectiveType = 'MAX_MUTATIONS' | 'MAX_PROFIT' | 'MAX_YIELD' | 'TARGET_MUTATION';
 
-export type MoveType = 'ADD_MUTATION' | 'REMOVE_MUTATION' | 'MOVE_MUTATION' | 'SWAP_MUTATION';
+export type MoveType = 'ADD_MUTATION' | 'ADD_CHAIN' | 'REMOVE_MUTATION' | 'MOVE_MUTATION' | 'SWAP_MUTATION';
 
 export interface Position {
   x: number;
   y: number;
 }
 
+// Plot dimensions in cells; grids are indexed [y][x] within them
+export interface GridSize {
+  width: number;
+  height: number;
+}
+
 export interface FootprintOffset {
   dx: number;
   dy: number;
@@ -136,6 +174,8 @@ export interface OptimizerPlacedMutation {
   geometry: MutationGeometry;
   satisfyingCrops: Map<string, Position[]>;
   satisfyingMutations: Map<string, string[]>;
+  // Pinned placements are never removed, moved or swapped by a run
+  pinned?: boolean;
 }
 
 export interface OptimizerPlacedCrop {
@@ -143,20 +183,121 @@ export interface OptimizerPlacedCrop {
   crop: string;
   position: Position;
   forMutations: string[];
+  pinned?: boolean;
+}
+
+// Cell lookups for a state; cells are stored row-major at y * width + x
+export interface OccupancyIndex {
+  width: number;
+  height: number;
+  mutationAt: (string | null)[];
+  cropAt: (string | null)[];
+  cropsByMutation: Map<string, Set<string>>;
 }
 
 export interface OptimizerState {
   grid: (string | null)[][];
+  ground: GroundMap;
   placedMutations: Map<string, OptimizerPlacedMutation>;
   placedCrops: Map<string, OptimizerPlacedCrop>;
+  index: OccupancyIndex;
   score: number;
 }
 
+// A rule a layout breaks. placedId is the placement at fault and subject the
+// mutation or crop it holds; cells are the grid cells involved
+interface LayoutViolationBase {
+  placedId: string;
+  subject: string;
+  cells: Position[];
+}
+
+export type LayoutViolation = LayoutViolationBase & (
+  | { type: 'missing_crop'; crop: string; needed: number; found: number }
+  | { type: 'missing_mutation'; mutationId: string; needed: number; found: number }
+  // Crops touching a mutation that needs none; cells include the crops
+  | { type: 'isolation' }
+  | { type: 'ground_mismatch'; required: GroundType }
+  // Cells outside the unlocked slots or the grid
+  | { type: 'out_of_slot' }
+  | { type: 'overlap'; otherId: string; otherSubject: string }
+  | { type: 'unsupported_special'; special: string }
+  | { type: 'missing_effects'; effects: string[] }
+);
+
+// One requirement of a placed mutation and how far it is met. id is the crop
+// or mutation needed, or the adjacent_crops / special condition key; for
+// adjacent_crops, need is the most crops allowed rather than the fewest
+export interface RequirementStatus {
+  id: string;
+  have: number;
+  need: number;
+  met: boolean;
+}
+
+// How many of a mutation a layout should contain; `exact` overrides min/max
+export interface MutationCountTarget {
+  exact?: number;
+  min?: number;
+  max?: number;
+}
+
+export type MutationTargets = Record<string, MutationCountTarget>;
+
+export interface MutationTargetStatus {
+  mutationId: string;
+  count: number;
+  min: number;
+  max: number | null;
+  met: boolean;
+}
+
+// fixed: geometric cooling from startTemperature by coolingRate
+// adaptive: calibrated start temperature, acceptance-paced cooling and reheats
+export type TemperatureScheduleType = 'fixed' | 'adaptive';
+
+export interface AdaptiveScheduleOptions {
+  // Chance of accepting an average worsening move at the calibrated start temperature
+  initialAcceptance: number;
+  // Iterations without a new best before reheating; 0 means a tenth of the run
+  reheatWindow: number;
+  // Fraction of the start temperature a reheat raises the temperature back to
+  reheatRatio: number;
+}
+
 export interface OptimizerConfig {
   maxIterations: number;
   startTemperature: number;
   coolingRate: number;
   objectiveType: ObjectiveType;
+  ground?: GroundMap;
+  // Plot dimensions for runs that don't start from a state; DEFAULT_GRID_SIZE when omitted
+  gridSize?: GridSize;
+  // Fixes every random decision so a run can be reproduced; random when omitted
+  seed?: number;
+  // Maximums are never exceeded; missing minimums are penalized in the score
+  targets?: MutationTargets;
+  // Mutation whose copies TARGET_MUTATION counts
+  targetMutationId?: string;
+  // Small plots are solved exactly before annealing unless this is false
+  exact?: boolean;
+  // Temperature schedule; 'fixed' when omitted. Adaptive runs only use
+  // startTemperature as a fallback when calibration finds no worsening moves
+  schedule?: TemperatureScheduleType;
+  adaptive?: Partial<AdaptiveScheduleOptions>;
+  // Validate the layout after every accepted move and throw on the first
+  // violation; slow, for tracking down moves that break the rules
+  debug?: boolean;
+}
+
+export interface OptimizerHistoryEntry {
+  iteration: number;
+  score: number;
+  temperature: number;
+  // Smoothed share of recent worsening moves that were accepted
+  acceptanceRatio?: number;
+  // The adaptive schedule raised the temperature at this iteration
+  reheat?: boolean;
 }
 
 export interface OptimizerResult {
@@ -164,7 +305,13 @@ export interface OptimizerResult {
   iterations: number;
   finalScore: number;
   bestScore: number;
-  history: { iteration: number; score: number; temperature: number }[];
+  // Layout the run ended on, which finalScore belongs to
+  finalState?: OptimizerState;
+  history: OptimizerHistoryEntry[];
+  seed: number;
+  targets?: MutationTargetStatus[];
+  // Set when an exact search proved no better layout exists under the placement rules
+  optimal?: boolean;
 }
 
 export interface OptimizerProgress {
@@ -174,4 +321,119 @@ export interface OptimizerProgress {
   bestScore: number;
   temperature: number;
   placedMutationsCount: number;
+  acceptanceRatio?: number;
+  reheats?: number;
+}
+
+// A crop or mutation of a build plan, by its id and top-left cell
+export interface PlannedPlacement {
+  placedId: string;
+  id: string;
+  position: Position;
+}
+
+// A recipe product of a build plan and the steps left once the mutation it
+// grows from has grown
+export interface PlannedRecipe extends PlannedPlacement {
+  steps: string[];
 }
+
+// One stage of building a layout: plant, wait for the mutations to grow,
+// carry out the recipes, then remove the crops no later stage needs
+export interface BuildStage {
+  tier: number;
+  plant: PlannedPlacement[];
+  grow: PlannedPlacement[];
+  recipes: PlannedRecipe[];
+  remove: PlannedPlacement[];
+}
+
+// ============================================
+// Garden Types
+// ============================================
+
+// One plot of a garden, with its own slots and ground. Plots are laid out
+// separately: crops never serve mutations across a plot border
+export interface GardenPlot {
+  id: string;
+  name: string;
+  unlockedSlots: Set<string>;
+  gridSize: GridSize;
+  ground: GroundMap;
+  // Layout the plot's run starts from, e.g. its pinned placements
+  initialState?: OptimizerState;
+}
+
+export interface GardenPlotResult {
+  plotId: string;
+  name: string;
+  result: OptimizerResult;
+  // Objective score of the plot's layout, without target penalties
+  score: number;
+  mutationCount: number;
+}
+
+export interface GardenResult {
+  plots: GardenPlotResult[];
+  // Sum of the plots' scores
+  totalScore: number;
+  // Garden-wide counts against the shared targets
+  targets?: MutationTargetStatus[];
+}
+
+// ============================================
+// Optimizer Worker Types
+// ============================================
+
+export interface SerializedPlacedMutation {
+  id: string;
+  mutationId: string;
+  position: Position;
+  geometry: MutationGeometry;
+  satisfyingCrops: [string, Position[]][];
+  satisfyingMutations: [string, string[]][];
+  pinned?: boolean;
+}
+
+export interface SerializedOptimizerState {
+  grid: (string | null)[][];
+  ground: GroundMap;
+  placedMutations: SerializedPlacedMutation[];
+  placedCrops: OptimizerPlacedCrop[];
+  score: number;
+}
+
+export interface SerializedOptimizerResult extends Omit<OptimizerResult, 'state' | 'finalState'> {
+  state: SerializedOptimizerState;
+  finalState?: SerializedOptimizerState;
+}
+
+// Live status of one parallel tempering replica
+export interface ReplicaProgress {
+  replica: number;
+  temperature: number;
+  currentScore: number;
+  bestScore: number;
+}
+
+export interface OptimizerTick {
+  progress: OptimizerProgress;
+  bestState: OptimizerState;
+}
+
+export type OptimizerWorkerRequest =
+  | {
+      type: 'start';
+      runId: number;
+      unlockedSlots: string[];
+      availableMutations: string[];
+      config: OptimizerConfig;
+      initialState?: SerializedOptimizerState;
+    }
+  | { type: 'cancel'; runId: number };
+
+export type OptimizerWorkerResponse =
+  | { type: 'progress'; runId: number; progress: OptimizerProgress }
+  | { type: 'best'; runId: number; result: SerializedOptimizerResult }
+  | { type: 'done'; runId: number; result: SerializedOptimizerResult; cancelled: boolean }
+  | { type: 'error'; runId: number; message: string };
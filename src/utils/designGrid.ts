@@ -0,0 +1,179 @@
+import type { CustomDesignCell, CustomDesignGrid, CustomDesignPlot, GardenPlot, GroundMap, GroundType, OptimizerState } from "@types"
+import { MUTATIONS_DATA } from "@/data/mutationsData"
+import { DEFAULT_GROUND, createStateFromDesignGrid, getGeometryCached, getGridSize } from "@utils/optimizer"
+
+/**
+ * Ground block under a designer cell
+ */
+export function getCellGroundType(cell: CustomDesignCell): GroundType {
+    return cell.ground ?? DEFAULT_GROUND
+}
+
+/**
+ * Empty a cell while keeping the ground painted underneath it
+ */
+export function clearCellContent(cell: CustomDesignCell): CustomDesignCell {
+    return cell.ground ? { type: 'empty', ground: cell.ground } : { type: 'empty' }
+}
+
+/**
+ * Keep only the pinned placements of a design, so a run can start from them
+ */
+export function getPinnedGrid(grid: CustomDesignGrid): CustomDesignGrid {
+    return grid.map(row => row.map(cell => cell.type === 'locked' || cell.pinned ? cell : clearCellContent(cell)))
+}
+
+/**
+ * Cells a mutation would cover with its top-left corner at a cell
+ */
+export function getFootprintCells(mutationId: string, row: number, col: number): { row: number; col: number }[] {
+    return getGeometryCached(mutationId).footprint.map(({ dx, dy }) => ({ row: row + dy, col: col + dx }))
+}
+
+/**
+ * Top-left "row,col" of the multi-cell mutation covering each cell, anchors
+ * included. A mutation is only stored in its top-left cell, so the rest of
+ * its footprint is worked out here; one whose footprint runs off the grid,
+ * onto locked cells or into other placements covers just its own cell.
+ */
+export function getFootprintAnchors(grid: CustomDesignGrid): Map<string, string> {
+    const anchors = new Map<string, string>()
+    grid.forEach((row, rowIndex) => {
+        row.forEach((cell, colIndex) => {
+            if (cell.type !== 'mutation' || !cell.mutationId || !MUTATIONS_DATA[cell.mutationId]) return
+            const cells = getFootprintCells(cell.mutationId, rowIndex, colIndex)
+            if (cells.length === 1) return
+
+            const fits = cells.every(c => {
+                const covered = grid[c.row]?.[c.col]
+                if (!covered || anchors.has(`${c.row},${c.col}`)) return false
+                return (c.row === rowIndex && c.col === colIndex) || covered.type === 'empty'
+            })
+            if (!fits) return
+
+            const anchor = `${rowIndex},${colIndex}`
+            for (const c of cells) anchors.set(`${c.row},${c.col}`, anchor)
+        })
+    })
+    return anchors
+}
+
+/**
+ * Cell holding the placement that covers a cell: the top-left of a multi-cell mutation
+ */
+export function getAnchorCell(anchors: Map<string, string>, row: number, col: number): [number, number] {
+    const anchor = anchors.get(`${row},${col}`)
+    return anchor ? anchor.split(',').map(Number) as [number, number] : [row, col]
+}
+
+/**
+ * Apply an edit to the placement covering a cell, so a multi-cell mutation
+ * is pinned or removed as a whole
+ */
+export function updatePlacementAt(
+    grid: CustomDesignGrid,
+    row: number,
+    col: number,
+    update: (cell: CustomDesignCell) => CustomDesignCell
+): CustomDesignGrid {
+    const [anchorRow, anchorCol] = getAnchorCell(getFootprintAnchors(grid), row, col)
+    const newGrid = grid.map(r => r.map(c => ({ ...c })))
+    newGrid[anchorRow][anchorCol] = update(newGrid[anchorRow][anchorCol])
+    return newGrid
+}
+
+/**
+ * Whether a mutation can go down with its top-left corner at a cell: its
+ * whole footprint has to be on unlocked, empty cells no other mutation covers
+ */
+export function canPlaceFootprint(
+    grid: CustomDesignGrid,
+    anchors: Map<string, string>,
+    mutationId: string,
+    row: number,
+    col: number
+): boolean {
+    return getFootprintCells(mutationId, row, col).every(c =>
+        grid[c.row]?.[c.col]?.type === 'empty' && !anchors.has(`${c.row},${c.col}`)
+    )
+}
+
+/**
+ * Collect painted ground into the optimizer's "row,col" ground map
+ */
+export function getGroundMap(grid: CustomDesignGrid): GroundMap {
+    const ground: GroundMap = {}
+    grid.forEach((row, rowIndex) => {
+        row.forEach((cell, colIndex) => {
+            if (cell.ground && cell.ground !== DEFAULT_GROUND) {
+                ground[`${rowIndex},${colIndex}`] = cell.ground
+            }
+        })
+    })
+    return ground
+}
+
+/**
+ * "row,col" keys of the unlocked slots in a slot mask
+ */
+export function getUnlockedSlotSet(unlockedSlots: boolean[][]): Set<string> {
+    const set = new Set<string>()
+    unlockedSlots.forEach((row, rowIndex) => {
+        row.forEach((unlocked, colIndex) => {
+            if (unlocked) set.add(`${rowIndex},${colIndex}`)
+        })
+    })
+    return set
+}
+
+/**
+ * Replace a design's placements with an optimizer layout, keeping locks
+ * and painted ground
+ */
+export function applyLayoutToGrid(grid: CustomDesignGrid, state: OptimizerState): CustomDesignGrid {
+    const newGrid = grid.map(row => row.map(cell => cell.type === 'locked' ? cell : clearCellContent(cell)))
+
+    // Apply mutations; each goes in its top-left cell and the designer works out the rest of its footprint
+    state.placedMutations.forEach((placed) => {
+        const { x, y } = placed.position
+        if (newGrid[y]?.[x]) {
+            newGrid[y][x] = { ...newGrid[y][x], type: 'mutation', mutationId: placed.mutationId, pinned: placed.pinned }
+        }
+    })
+
+    // Apply crops
+    state.placedCrops.forEach((placed) => {
+        const { x, y } = placed.position
+        if (newGrid[y]?.[x] && newGrid[y][x].type === 'empty') {
+            newGrid[y][x] = { ...newGrid[y][x], type: 'crop', cropType: placed.crop, pinned: placed.pinned }
+        }
+    })
+
+    return newGrid
+}
+
+/**
+ * A designer plot as the optimizer's garden sees it. Its run starts from
+ * the whole design when warmStart is set, otherwise from its pinned cells.
+ */
+export function getGardenPlot(plot: CustomDesignPlot, warmStart: boolean): GardenPlot {
+    const ground = getGroundMap(plot.grid)
+    const hasPins = plot.grid.some(row => row.some(cell => cell.pinned))
+    return {
+        id: plot.id,
+        name: plot.name,
+        unlockedSlots: getUnlockedSlotSet(plot.unlockedSlots),
+        gridSize: getGridSize(plot.unlockedSlots),
+        ground,
+        initialState: warmStart || hasPins
+            ? createStateFromDesignGrid(warmStart ? plot.grid : getPinnedGrid(plot.grid), ground)
+            : undefined
+    }
+}
+
+/**
+ * Human readable ground name
+ */
+export function formatGroundName(ground: GroundType): string {
+    return ground.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')
+}
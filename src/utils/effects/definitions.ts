@@ -0,0 +1,93 @@
+/**
+ * Every effect a mutation can have
+ */
+export type EffectId =
+  | 'improved_harvest_boost'
+  | 'harvest_boost'
+  | 'harvest_loss'
+  | 'improved_water_retain'
+  | 'water_retain'
+  | 'water_drain'
+  | 'improved_xp_boost'
+  | 'xp_boost'
+  | 'xp_loss'
+  | 'immunity'
+  | 'bonus_drops'
+  | 'improved_effect_spread'
+  | 'effect_spread';
+
+/**
+ * Per-cell multiplier an effect changes
+ */
+export type EffectStat = 'harvest' | 'water' | 'xp';
+
+export interface EffectDefinition {
+  // Multiplier the effect changes, and by how much; flag and spread effects have none
+  stat: EffectStat | null;
+  value: number;
+  // Negative effects are blocked by immunity
+  negative: boolean;
+  // Extra reach given to the emitter and the mutations next to it
+  spreadBonus: number;
+  // Static value of having the effect, used by MAX_PROFIT
+  weight: number;
+}
+
+export const EFFECT_DEFINITIONS: Record<EffectId, EffectDefinition> = {
+  improved_harvest_boost: { stat: 'harvest', value: 0.30, negative: false, spreadBonus: 0, weight: 100 },
+  harvest_boost: { stat: 'harvest', value: 0.20, negative: false, spreadBonus: 0, weight: 60 },
+  harvest_loss: { stat: 'harvest', value: -0.20, negative: true, spreadBonus: 0, weight: -40 },
+  improved_water_retain: { stat: 'water', value: 0.30, negative: false, spreadBonus: 0, weight: 40 },
+  water_retain: { stat: 'water', value: 0.20, negative: false, spreadBonus: 0, weight: 25 },
+  water_drain: { stat: 'water', value: -0.20, negative: true, spreadBonus: 0, weight: -30 },
+  improved_xp_boost: { stat: 'xp', value: 0.30, negative: false, spreadBonus: 0, weight: 35 },
+  xp_boost: { stat: 'xp', value: 0.20, negative: false, spreadBonus: 0, weight: 20 },
+  xp_loss: { stat: 'xp', value: -0.20, negative: true, spreadBonus: 0, weight: -20 },
+  immunity: { stat: null, value: 0, negative: false, spreadBonus: 0, weight: 80 },
+  bonus_drops: { stat: null, value: 0, negative: false, spreadBonus: 0, weight: 70 },
+  improved_effect_spread: { stat: null, value: 0, negative: false, spreadBonus: 2, weight: 50 },
+  effect_spread: { stat: null, value: 0, negative: false, spreadBonus: 1, weight: 30 }
+};
+
+/**
+ * Reach of a mutation's effects without any spread, as Chebyshev distance
+ * from its footprint
+ */
+export const BASE_EFFECT_RADIUS = 1;
+
+export const EFFECT_IDS = Object.keys(EFFECT_DEFINITIONS) as EffectId[];
+
+/**
+ * Positive effects by kind; the improved form of an effect counts as the
+ * plain one
+ */
+export const POSITIVE_EFFECT_KINDS = {
+  harvest_boost: ['harvest_boost', 'improved_harvest_boost'],
+  water_retain: ['water_retain', 'improved_water_retain'],
+  xp_boost: ['xp_boost', 'improved_xp_boost'],
+  immunity: ['immunity'],
+  bonus_drops: ['bonus_drops'],
+  effect_spread: ['effect_spread', 'improved_effect_spread']
+} satisfies Record<string, EffectId[]>;
+
+export type PositiveEffectKind = keyof typeof POSITIVE_EFFECT_KINDS;
+
+export const POSITIVE_EFFECT_KIND_IDS = Object.keys(POSITIVE_EFFECT_KINDS) as PositiveEffectKind[];
+
+export function isEffectId(effect: string): effect is EffectId {
+  return effect in EFFECT_DEFINITIONS;
+}
+
+/**
+ * Effect ids of a mutation's data, ignoring any the engine doesn't know
+ */
+export function toEffectIds(effects: string[]): EffectId[] {
+  return effects.filter(isEffectId);
+}
+
+/**
+ * MAX_PROFIT weight of an effect (0 for unknown ids)
+ */
+export function getEffectWeight(effect: string): number {
+  return isEffectId(effect) ? EFFECT_DEFINITIONS[effect].weight : 0;
+}
@@ -0,0 +1,221 @@
+import type { Position, CustomDesignGrid, OptimizerState } from '@types';
+import { getMutationData } from '@data/mutationsData';
+import { parseSize } from '@utils/optimizer/geometry';
+import { EFFECT_DEFINITIONS, BASE_EFFECT_RADIUS, POSITIVE_EFFECT_KINDS, POSITIVE_EFFECT_KIND_IDS, toEffectIds } from './definitions';
+import type { EffectId, EffectStat, PositiveEffectKind } from './definitions';
+
+/**
+ * A placed mutation that emits effects, independent of the grid
+ * representation it came from
+ */
+export interface EffectSource {
+  mutationId: string;
+  // Top-left cell of the footprint
+  position: Position;
+  width: number;
+  height: number;
+  effects: EffectId[];
+}
+
+/**
+ * An effect source with its reach after effect spread is applied
+ */
+export interface ResolvedEffectSource extends EffectSource {
+  radius: number;
+}
+
+export interface AppliedEffect {
+  mutationId: string;
+  effect: EffectId;
+  value: number;
+}
+
+/**
+ * Everything acting on one cell. Multipliers start at 1 and never drop
+ * below 0.
+ */
+export interface CellEffectState {
+  harvest: number;
+  water: number;
+  xp: number;
+  immune: boolean;
+  bonusDrops: boolean;
+  applied: AppliedEffect[];
+}
+
+/**
+ * Create the effect source for a mutation placed with its top-left cell at
+ * position, or null if it has no effects
+ */
+export function createEffectSource(mutationId: string, position: Position): EffectSource | null {
+  const mutation = getMutationData(mutationId);
+  if (!mutation) return null;
+
+  const effects = toEffectIds(mutation.effects);
+  if (effects.length === 0) return null;
+
+  const { width, height } = parseSize(mutation.size);
+  return { mutationId, position, width, height, effects };
+}
+
+/**
+ * Effect sources for every mutation in a designer grid
+ */
+export function getDesignGridEffectSources(grid: CustomDesignGrid): EffectSource[] {
+  const sources: EffectSource[] = [];
+  grid.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (cell.type !== 'mutation' || !cell.mutationId) return;
+      const source = createEffectSource(cell.mutationId, { x, y });
+      if (source) sources.push(source);
+    });
+  });
+  return sources;
+}
+
+/**
+ * Effect sources for every mutation in an optimizer state
+ */
+export function getStateEffectSources(state: OptimizerState): EffectSource[] {
+  const sources: EffectSource[] = [];
+  for (const placed of state.placedMutations.values()) {
+    const source = createEffectSource(placed.mutationId, placed.position);
+    if (source) sources.push(source);
+  }
+  return sources;
+}
+
+/**
+ * Chebyshev distance from a cell to the nearest cell of a footprint
+ * (0 inside it)
+ */
+export function getDistanceToFootprint(position: Position, source: EffectSource): number {
+  const dx = Math.max(source.position.x - position.x, 0, position.x - (source.position.x + source.width - 1));
+  const dy = Math.max(source.position.y - position.y, 0, position.y - (source.position.y + source.height - 1));
+  return Math.max(dx, dy);
+}
+
+type Footprint = Pick<EffectSource, 'position' | 'width' | 'height'>;
+
+function getFootprintGap(a: Footprint, b: Footprint): number {
+  const dx = Math.max(a.position.x - (b.position.x + b.width - 1), 0, b.position.x - (a.position.x + a.width - 1));
+  const dy = Math.max(a.position.y - (b.position.y + b.height - 1), 0, b.position.y - (a.position.y + a.height - 1));
+  return Math.max(dx, dy);
+}
+
+function getSpreadBonus(source: EffectSource): number {
+  return Math.max(0, ...source.effects.map(effect => EFFECT_DEFINITIONS[effect].spreadBonus));
+}
+
+/**
+ * Work out each source's reach. A spreading mutation widens its own reach
+ * and that of every mutation touching it; bonuses don't add up (the
+ * largest applies) and don't pass on through a widened neighbour.
+ */
+export function resolveEffectSources(sources: EffectSource[]): ResolvedEffectSource[] {
+  const spreaders = sources.filter(source => getSpreadBonus(source) > 0);
+
+  return sources.map(source => {
+    let bonus = 0;
+    for (const spreader of spreaders) {
+      if (spreader === source || getFootprintGap(source, spreader) <= 1) {
+        bonus = Math.max(bonus, getSpreadBonus(spreader));
+      }
+    }
+    return { ...source, radius: BASE_EFFECT_RADIUS + bonus };
+  });
+}
+
+/**
+ * Combined effect of all sources reaching a cell:
+ * - each effect id applies once, from the nearest source; different ids
+ *   add up on their multiplier
+ * - immunity from any source in reach blocks every negative effect
+ * - a source never affects cells of its own footprint
+ */
+export function calculateCellEffects(position: Position, sources: ResolvedEffectSource[]): CellEffectState {
+  const cellEffects: CellEffectState = {
+    harvest: 1,
+    water: 1,
+    xp: 1,
+    immune: false,
+    bonusDrops: false,
+    applied: []
+  };
+
+  const inRange = sources
+    .map(source => ({ source, distance: getDistanceToFootprint(position, source) }))
+    .filter(({ source, distance }) => distance > 0 && distance <= source.radius)
+    .sort((a, b) => a.distance - b.distance);
+
+  const immunitySource = inRange.find(({ source }) => source.effects.includes('immunity'));
+  if (immunitySource) {
+    cellEffects.immune = true;
+    cellEffects.applied.push({ mutationId: immunitySource.source.mutationId, effect: 'immunity', value: 0 });
+  }
+
+  const seen = new Set<EffectId>(['immunity']);
+  for (const { source } of inRange) {
+    for (const effect of source.effects) {
+      if (seen.has(effect)) continue;
+
+      const definition = EFFECT_DEFINITIONS[effect];
+      if (definition.spreadBonus > 0) continue;
+      if (definition.negative && cellEffects.immune) continue;
+      seen.add(effect);
+
+      if (definition.stat) {
+        cellEffects[definition.stat] += definition.value;
+      } else if (effect === 'bonus_drops') {
+        cellEffects.bonusDrops = true;
+      }
+      cellEffects.applied.push({ mutationId: source.mutationId, effect, value: definition.value });
+    }
+  }
+
+  const stats: EffectStat[] = ['harvest', 'water', 'xp'];
+  for (const stat of stats) {
+    cellEffects[stat] = Math.max(0, cellEffects[stat]);
+  }
+  return cellEffects;
+}
+
+/**
+ * Effect state of every cell of a width x height grid, indexed [y][x]
+ */
+export function calculateGridEffects(
+  sources: EffectSource[],
+  width: number,
+  height: number
+): CellEffectState[][] {
+  const resolved = resolveEffectSources(sources);
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => calculateCellEffects({ x, y }, resolved))
+  );
+}
+
+/**
+ * Every effect that reaches some cell of a footprint from another source.
+ * Unlike calculateCellEffects nothing is blocked or deduplicated, and
+ * spread effects count too.
+ */
+export function getEffectsReachingFootprint(footprint: Footprint, sources: ResolvedEffectSource[]): Set<EffectId> {
+  const reaching = new Set<EffectId>();
+  for (const source of sources) {
+    const gap = getFootprintGap(footprint, source);
+    // A gap of 0 means the source overlaps the footprint, i.e. is the mutation itself
+    if (gap === 0 || gap > source.radius) continue;
+    for (const effect of source.effects) reaching.add(effect);
+  }
+  return reaching;
+}
+
+/**
+ * Positive effect kinds that don't reach a footprint in either form
+ */
+export function getMissingPositiveEffects(footprint: Footprint, sources: ResolvedEffectSource[]): PositiveEffectKind[] {
+  const reaching = getEffectsReachingFootprint(footprint, sources);
+  return POSITIVE_EFFECT_KIND_IDS.filter(kind =>
+    !POSITIVE_EFFECT_KINDS[kind].some((effect: EffectId) => reaching.has(effect))
+  );
+}
@@ -0,0 +1,26 @@
+// Effect definitions
+export {
+  EFFECT_DEFINITIONS,
+  EFFECT_IDS,
+  BASE_EFFECT_RADIUS,
+  POSITIVE_EFFECT_KINDS,
+  POSITIVE_EFFECT_KIND_IDS,
+  isEffectId,
+  toEffectIds,
+  getEffectWeight
+} from './definitions';
+export type { EffectId, EffectStat, EffectDefinition, PositiveEffectKind } from './definitions';
+
+// Per-cell effect engine
+export {
+  createEffectSource,
+  getDesignGridEffectSources,
+  getStateEffectSources,
+  getDistanceToFootprint,
+  resolveEffectSources,
+  calculateCellEffects,
+  calculateGridEffects,
+  getEffectsReachingFootprint,
+  getMissingPositiveEffects
+} from './engine';
+export type { EffectSource, ResolvedEffectSource, AppliedEffect, CellEffectState } from './engine';
@@ -1,32 +1,44 @@
 import type { CustomDesignGrid } from "@types"
 import { MUTATIONS_DATA } from "@/data/mutationsData"
 import { CROP_EMOJIS } from "@/data/constants"
+import { calculateGridEffects, getDesignGridEffectSources } from "@utils/effects"
+import { getGridSize } from "@utils/optimizer"
 
 const CELL_SIZE = 60
-const GRID_SIZE = 10
 const PADDING = 40
-const CANVAS_WIDTH = GRID_SIZE * CELL_SIZE + PADDING * 2
-const CANVAS_HEIGHT = GRID_SIZE * CELL_SIZE + PADDING * 2 + 60 // Extra space for title
+const TITLE_HEIGHT = 60
+
+// Same thresholds as the designer's effect overlay
+function getHarvestColor(multiplier: number): string {
+    if (multiplier >= 1.5) return '#4ade80'
+    if (multiplier >= 1.2) return '#34d399'
+    if (multiplier >= 1.0) return '#ffffff'
+    if (multiplier >= 0.8) return '#fb923c'
+    return '#f87171'
+}
 
 export async function renderGridToCanvas(grid: CustomDesignGrid): Promise<HTMLCanvasElement> {
+    const { width, height } = getGridSize(grid)
     const canvas = document.createElement('canvas')
-    canvas.width = CANVAS_WIDTH
-    canvas.height = CANVAS_HEIGHT
+    canvas.width = width * CELL_SIZE + PADDING * 2
+    canvas.height = height * CELL_SIZE + PADDING * 2 + TITLE_HEIGHT
     const ctx = canvas.getContext('2d')!
 
     // Background
     ctx.fillStyle = '#0a0a0a'
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT)
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
 
     // Title
     ctx.fillStyle = '#ffffff'
     ctx.font = 'bold 24px Inter, sans-serif'
     ctx.textAlign = 'center'
-    ctx.fillText('Hypixel Crop Mutations Design', CANVAS_WIDTH / 2, 30)
+    ctx.fillText('Hypixel Crop Mutations Design', canvas.width / 2, 30)
+
+    const cellEffects = calculateGridEffects(getDesignGridEffectSources(grid), width, height)
 
     // Draw grid
-    for (let row = 0; row < GRID_SIZE; row++) {
-        for (let col = 0; col < GRID_SIZE; col++) {
+    for (let row = 0; row < height; row++) {
+        for (let col = 0; col < width; col++) {
             const x = PADDING + col * CELL_SIZE
             const y = PADDING + 40 + row * CELL_SIZE
             const cell = grid[row][col]
@@ -89,7 +101,7 @@ export async function renderGridToCanvas(grid: CustomDesignGrid): Promise<HTMLCa
                     ctx.font = '32px Arial'
                     ctx.textAlign = 'center'
                     ctx.textBaseline = 'middle'
-                    ctx.fillText(emoji, x + CELL_SIZE / 2, y + CELL_SIZE / 2)
+                    ctx.fillText(emoji, x + CELL_SIZE / 2, y + CELL_SIZE / 2 - 4)
                 } else {
                     // Fallback text
                     ctx.fillStyle = '#ffffff'
@@ -98,6 +110,14 @@ export async function renderGridToCanvas(grid: CustomDesignGrid): Promise<HTMLCa
                     ctx.textBaseline = 'middle'
                     ctx.fillText(cell.cropType, x + CELL_SIZE / 2, y + CELL_SIZE / 2)
                 }
+
+                // Harvest multiplier from nearby mutation effects
+                const { harvest } = cellEffects[row][col]
+                ctx.fillStyle = getHarvestColor(harvest)
+                ctx.font = 'bold 10px Inter, sans-serif'
+                ctx.textAlign = 'center'
+                ctx.textBaseline = 'bottom'
+                ctx.fillText(`${(harvest * 100).toFixed(0)}%`, x + CELL_SIZE / 2, y + CELL_SIZE - 4)
             }
         }
     }
@@ -3,32 +3,79 @@ import type {
   OptimizerConfig,
   OptimizerResult,
   OptimizerProgress,
-  MoveType
+  OptimizerTick,
+  ObjectiveType,
+  MoveType,
+  GroundMap,
+  OptimizerHistoryEntry
 } from '@types';
 import { getMutationData } from '@data/mutationsData';
 import { MUTATION_TIERS } from '@utils/tierUtils';
 import {
   createEmptyState,
   deepCloneState,
-  canPlaceMutation,
   placeMutationWithCrops,
   removeMutation,
   getRandomPlacedMutation,
   getEmptyUnlockedCells,
+  getUnlockedPositions,
   shuffleArray,
-  validateAndCleanState
+  validateAndCleanState,
+  beginTransaction,
+  commitTransaction,
+  rollbackTransaction,
+  getTransactionMutationChanges
 } from './stateManager';
-import { getGeometryCached, MUTATIONS_BY_SIZE, canFitInUnlockedSlots } from './geometry';
-import { hasSpecialConditions, getRequiredMutations } from './cropSolver';
-import { calculateScore } from './scoring';
+import { getGeometryCached, MUTATIONS_BY_SIZE, canFitInUnlockedSlots, getCellGround } from './geometry';
+import { hasSpecialConditions, getRequiredMutations, needsAllPositiveEffects } from './cropSolver';
+import { calculateScore, calculateScoreDelta } from './scoring';
+import { placeMutationChain, hasGroundForChain, hasRoomForChain, getSupportMutations, hasEffectProviders } from './dependencyChain';
+import { createRandom, createSeed, randomInt } from './random';
+import { assertValidLayout } from './validator';
+import {
+  createTargetTracker,
+  isBelowMax,
+  calculateTargetPenalty,
+  evaluateTargetChanges,
+  commitTargetChanges,
+  getTargetStatus
+} from './targets';
+import {
+  CALIBRATION_SAMPLES,
+  calibrateStartTemperature,
+  getAdaptiveOptions,
+  createTemperatureSchedule,
+  recordAcceptance,
+  advanceSchedule
+} from './temperatureSchedule';
+import type { TargetTracker } from './targets';
+import type { RandomSource } from './random';
 
 const MOVE_TYPES: MoveType[] = ['ADD_MUTATION', 'REMOVE_MUTATION', 'MOVE_MUTATION', 'SWAP_MUTATION'];
 
+// Target positions tried per chain move; each attempt may place a whole subtree
+const MAX_CHAIN_POSITIONS = 2;
+
+// Failed chain moves after which a target that has never been built is dropped
+const MAX_CHAIN_FAILURES = 20;
+
+/**
+ * Chain targets still worth trying in a run, with their failure counts
+ */
+interface ChainPool {
+  mutations: string[];
+  placeable: Set<string>;
+  failures: Map<string, number>;
+}
+
+// Upper bound on iterations between progress ticks, so long runs stay responsive to cancellation
+const MAX_PROGRESS_INTERVAL = 250;
+
 /**
  * Filter mutations to only include those that can potentially be placed
  * (exclude special condition mutations and those requiring other mutations not in the list)
  */
-function filterPlaceableMutations(availableMutations: string[]): string[] {
+export function filterPlaceableMutations(availableMutations: string[]): string[] {
   const availableSet = new Set(availableMutations);
 
   return availableMutations.filter(mutationId => {
@@ -55,16 +102,37 @@ function filterPlaceableMutations(availableMutations: string[]): string[] {
  */
 function getCropOnlyMutations(availableMutations: string[]): string[] {
   return availableMutations.filter(mutationId => {
-    if (hasSpecialConditions(mutationId)) return false;
+    if (hasSpecialConditions(mutationId) || needsAllPositiveEffects(mutationId)) return false;
     const requiredMutations = getRequiredMutations(mutationId);
     return requiredMutations.size === 0;
   });
 }
 
+/**
+ * Get mutations that need other mutations adjacent or in effect range,
+ * which only a chain move can build, skipping those whose tree needs
+ * ground the layout doesn't have. Effect providers can be any of the
+ * placeable mutations.
+ */
+function getChainMutations(
+  candidateMutations: string[],
+  placeableMutations: string[],
+  unlockedSlots: Set<string>,
+  ground: GroundMap
+): string[] {
+  const grounds = new Set(getUnlockedPositions(unlockedSlots).map(cell => getCellGround(ground, cell)));
+  const effectProvidersAvailable = hasEffectProviders(placeableMutations, grounds);
+
+  return candidateMutations.filter(mutationId =>
+    (getRequiredMutations(mutationId).size > 0 || (needsAllPositiveEffects(mutationId) && effectProvidersAvailable)) &&
+    hasGroundForChain(mutationId, grounds)
+  );
+}
+
 /**
  * Weighted random selection of mutations (prefer higher tier)
  */
-function getWeightedRandomMutation(availableMutations: string[]): string {
+function getWeightedRandomMutation(availableMutations: string[], random: RandomSource): string {
   if (availableMutations.length === 0) {
     throw new Error('No available mutations');
   }
@@ -75,11 +143,11 @@ function getWeightedRandomMutation(availableMutations: string[]): string {
   });
 
   const totalWeight = weights.reduce((a, b) => a + b, 0);
-  let random = Math.random() * totalWeight;
+  let remaining = random() * totalWeight;
 
   for (let i = 0; i < availableMutations.length; i++) {
-    random -= weights[i];
-    if (random <= 0) {
+    remaining -= weights[i];
+    if (remaining <= 0) {
       return availableMutations[i];
     }
   }
@@ -90,7 +158,12 @@ function getWeightedRandomMutation(availableMutations: string[]): string {
 /**
  * Get a random mutation of the same size
  */
-function getRandomMutationSameSize(size: string, exclude: string, availableMutations: string[]): string | null {
+function getRandomMutationSameSize(
+  size: string,
+  exclude: string,
+  availableMutations: string[],
+  random: RandomSource
+): string | null {
   const sameSize = MUTATIONS_BY_SIZE.get(size) || [];
   const candidates = sameSize.filter(id =>
     id !== exclude &&
@@ -99,7 +172,7 @@ function getRandomMutationSameSize(size: string, exclude: string, availableMutat
   );
 
   if (candidates.length === 0) return null;
-  return candidates[Math.floor(Math.random() * candidates.length)];
+  return candidates[randomInt(random, candidates.length)];
 }
 
 /**
@@ -108,36 +181,76 @@ function getRandomMutationSameSize(size: string, exclude: string, availableMutat
 function tryAddMutation(
   state: OptimizerState,
   availableMutations: string[],
-  unlockedSlots: Set<string>
+  unlockedSlots: Set<string>,
+  random: RandomSource
 ): boolean {
   if (availableMutations.length === 0) return false;
 
-  const mutationId = getWeightedRandomMutation(availableMutations);
+  const mutationId = getWeightedRandomMutation(availableMutations, random);
   const geometry = getGeometryCached(mutationId);
 
   // Get shuffled list of possible positions
-  const emptyCells = shuffleArray(getEmptyUnlockedCells(state, unlockedSlots));
+  const emptyCells = shuffleArray(getEmptyUnlockedCells(state, unlockedSlots), random);
 
   for (const cell of emptyCells) {
     // Check if mutation fits at this position
     if (!canFitInUnlockedSlots(cell, geometry, unlockedSlots)) continue;
 
-    if (canPlaceMutation(mutationId, cell, state, unlockedSlots)) {
-      const placedId = placeMutationWithCrops(mutationId, cell, state, unlockedSlots);
-      if (placedId) {
-        return true;
-      }
+    if (placeMutationWithCrops(mutationId, cell, state, unlockedSlots)) {
+      return true;
     }
   }
 
   return false;
 }
 
+/**
+ * Try to add a mutation together with the prerequisite mutations it needs
+ */
+function tryAddChain(
+  state: OptimizerState,
+  chainPool: ChainPool,
+  unlockedSlots: Set<string>,
+  random: RandomSource
+): boolean {
+  if (chainPool.mutations.length === 0) return false;
+
+  const mutationId = getWeightedRandomMutation(chainPool.mutations, random);
+  const geometry = getGeometryCached(mutationId);
+
+  const candidates = shuffleArray(getEmptyUnlockedCells(state, unlockedSlots), random)
+    .filter(cell =>
+      canFitInUnlockedSlots(cell, geometry, unlockedSlots) &&
+      hasRoomForChain(mutationId, cell, state, unlockedSlots)
+    )
+    .slice(0, MAX_CHAIN_POSITIONS);
+
+  // Nowhere to start the chain right now; that says nothing about the target
+  if (candidates.length === 0) return false;
+
+  for (const cell of candidates) {
+    if (placeMutationChain(mutationId, cell, state, unlockedSlots, chainPool.placeable, random)) {
+      chainPool.failures.delete(mutationId);
+      return true;
+    }
+  }
+
+  // Some trees can't be laid out at all (e.g. too many prerequisites for the
+  // ring), so stop paying for targets that keep failing
+  const failures = (chainPool.failures.get(mutationId) || 0) + 1;
+  chainPool.failures.set(mutationId, failures);
+  if (failures >= MAX_CHAIN_FAILURES) {
+    chainPool.mutations = chainPool.mutations.filter(id => id !== mutationId);
+  }
+
+  return false;
+}
+
 /**
  * Try to remove a random mutation from the state
  */
-function tryRemoveMutation(state: OptimizerState): boolean {
-  const mutation = getRandomPlacedMutation(state);
+function tryRemoveMutation(state: OptimizerState, random: RandomSource): boolean {
+  const mutation = getRandomPlacedMutation(state, random);
   if (!mutation) return false;
 
   return removeMutation(mutation.id, state);
@@ -145,15 +258,16 @@ function tryRemoveMutation(state: OptimizerState): boolean {
 
 /**
  * Try to move a random mutation to a new position
+ * On failure the state is left partially changed; the caller rolls it back.
  */
 function tryMoveMutation(
   state: OptimizerState,
-  unlockedSlots: Set<string>
+  unlockedSlots: Set<string>,
+  random: RandomSource
 ): boolean {
-  const mutation = getRandomPlacedMutation(state);
+  const mutation = getRandomPlacedMutation(state, random);
   if (!mutation) return false;
 
-  const oldPosition = { ...mutation.position };
   const mutationId = mutation.mutationId;
   const geometry = getGeometryCached(mutationId);
 
@@ -161,40 +275,37 @@ function tryMoveMutation(
   removeMutation(mutation.id, state);
 
   // Get shuffled list of possible new positions
-  const emptyCells = shuffleArray(getEmptyUnlockedCells(state, unlockedSlots));
+  const emptyCells = shuffleArray(getEmptyUnlockedCells(state, unlockedSlots), random);
 
   for (const cell of emptyCells) {
     if (!canFitInUnlockedSlots(cell, geometry, unlockedSlots)) continue;
 
-    if (canPlaceMutation(mutationId, cell, state, unlockedSlots)) {
-      const placedId = placeMutationWithCrops(mutationId, cell, state, unlockedSlots);
-      if (placedId) {
-        return true;
-      }
+    if (placeMutationWithCrops(mutationId, cell, state, unlockedSlots)) {
+      return true;
     }
   }
 
-  // Rollback: couldn't find a new position, put it back
-  placeMutationWithCrops(mutationId, oldPosition, state, unlockedSlots);
-
+  // No new position found; the transaction rollback restores the mutation
   return false;
 }
 
 /**
  * Try to swap a mutation with a different one of the same size
+ * On failure the state is left partially changed; the caller rolls it back.
  */
 function trySwapMutation(
   state: OptimizerState,
   availableMutations: string[],
-  unlockedSlots: Set<string>
+  unlockedSlots: Set<string>,
+  random: RandomSource
 ): boolean {
-  const oldMutation = getRandomPlacedMutation(state);
+  const oldMutation = getRandomPlacedMutation(state, random);
   if (!oldMutation) return false;
 
   const mutation = getMutationData(oldMutation.mutationId);
   if (!mutation) return false;
 
-  const newMutationId = getRandomMutationSameSize(mutation.size, oldMutation.mutationId, availableMutations);
+  const newMutationId = getRandomMutationSameSize(mutation.size, oldMutation.mutationId, availableMutations, random);
   if (!newMutationId) return false;
 
   const position = { ...oldMutation.position };
@@ -203,17 +314,81 @@ function trySwapMutation(
   removeMutation(oldMutation.id, state);
 
   // Try to place new mutation
-  if (canPlaceMutation(newMutationId, position, state, unlockedSlots)) {
-    const placedId = placeMutationWithCrops(newMutationId, position, state, unlockedSlots);
-    if (placedId) {
-      return true;
+  if (placeMutationWithCrops(newMutationId, position, state, unlockedSlots)) {
+    return true;
+  }
+
+  // New mutation doesn't fit; the transaction rollback restores the old one
+  return false;
+}
+
+/**
+ * Apply a move to the state in place inside a transaction.
+ * Returns the move's score delta with the transaction still open, or null
+ * if the move failed (in which case it has already been rolled back).
+ */
+function applyMove(
+  moveType: MoveType,
+  state: OptimizerState,
+  placeableMutations: string[],
+  chainPool: ChainPool,
+  unlockedSlots: Set<string>,
+  objectiveType: ObjectiveType,
+  targetMutationId: string | undefined,
+  random: RandomSource,
+  targetTracker: TargetTracker | null
+): number | null {
+  beginTransaction(state);
+
+  let moveSucceeded = false;
+
+  switch (moveType) {
+    case 'ADD_MUTATION':
+      moveSucceeded = tryAddMutation(state, placeableMutations, unlockedSlots, random);
+      break;
+    case 'ADD_CHAIN':
+      moveSucceeded = tryAddChain(state, chainPool, unlockedSlots, random);
+      break;
+    case 'REMOVE_MUTATION':
+      moveSucceeded = tryRemoveMutation(state, random);
+      break;
+    case 'MOVE_MUTATION':
+      moveSucceeded = tryMoveMutation(state, unlockedSlots, random);
+      break;
+    case 'SWAP_MUTATION':
+      moveSucceeded = trySwapMutation(state, placeableMutations, unlockedSlots, random);
+      break;
+  }
+
+  if (!moveSucceeded) {
+    rollbackTransaction(state);
+    return null;
+  }
+
+  const changes = getTransactionMutationChanges(state);
+
+  // Count targets: maximums are hard limits, missing minimums cost score
+  let penaltyDelta = 0;
+  if (targetTracker) {
+    const targetDelta = evaluateTargetChanges(targetTracker, state, changes);
+    if (targetDelta === null) {
+      rollbackTransaction(state);
+      return null;
     }
+    penaltyDelta = targetDelta;
   }
 
-  // Rollback: put the old mutation back
-  placeMutationWithCrops(oldMutation.mutationId, position, state, unlockedSlots);
+  // state.score still holds the score before the move, net of the committed penalty
+  const previousScore = state.score + calculateTargetPenalty(targetTracker);
+  return calculateScoreDelta(state, changes, objectiveType, previousScore, targetMutationId) - penaltyDelta;
+}
 
-  return false;
+/**
+ * Count a seeding transaction's placements against the targets; false when
+ * they would take a mutation past its maximum, so the caller rolls back
+ */
+function fitsTargets(state: OptimizerState, targetTracker: TargetTracker | null): boolean {
+  return !targetTracker || evaluateTargetChanges(targetTracker, state, getTransactionMutationChanges(state)) !== null;
 }
 
 /**
@@ -223,7 +398,8 @@ function greedySeed(
   state: OptimizerState,
   availableMutations: string[],
   unlockedSlots: Set<string>,
-  objectiveType: 'MAX_MUTATIONS' | 'MAX_PROFIT'
+  objectiveType: ObjectiveType,
+  targetTracker: TargetTracker | null
 ): void {
   // First, only try to place mutations that don't require other mutations
   const cropOnlyMutations = getCropOnlyMutations(availableMutations);
@@ -249,22 +425,92 @@ function greedySeed(
 
   // Try to place each mutation once
   for (const mutationId of sortedMutations) {
+    if (!isBelowMax(targetTracker, mutationId)) continue;
+
     const geometry = getGeometryCached(mutationId);
     const emptyCells = getEmptyUnlockedCells(state, unlockedSlots);
 
     for (const cell of emptyCells) {
       if (!canFitInUnlockedSlots(cell, geometry, unlockedSlots)) continue;
 
-      if (canPlaceMutation(mutationId, cell, state, unlockedSlots)) {
-        const placedId = placeMutationWithCrops(mutationId, cell, state, unlockedSlots);
-        if (placedId) {
-          break; // Move to next mutation
-        }
+      beginTransaction(state);
+      if (placeMutationWithCrops(mutationId, cell, state, unlockedSlots) && fitsTargets(state, targetTracker)) {
+        if (targetTracker) commitTargetChanges(targetTracker);
+        commitTransaction(state);
+        break; // Move to next mutation
+      }
+      rollbackTransaction(state);
+    }
+  }
+}
+
+/**
+ * Build the target's chain on the still empty plot, where it has the most
+ * room. Trees that need a lot of space (Godseed's effect providers) rarely
+ * fit once the greedy seed has filled the plot.
+ */
+function seedTargetChain(
+  state: OptimizerState,
+  chainPool: ChainPool,
+  unlockedSlots: Set<string>,
+  random: RandomSource,
+  targetTracker: TargetTracker | null
+): void {
+  for (const mutationId of chainPool.mutations) {
+    const geometry = getGeometryCached(mutationId);
+    const cells = shuffleArray(getEmptyUnlockedCells(state, unlockedSlots), random)
+      .filter(cell => canFitInUnlockedSlots(cell, geometry, unlockedSlots));
+
+    for (const cell of cells) {
+      beginTransaction(state);
+      if (placeMutationChain(mutationId, cell, state, unlockedSlots, chainPool.placeable, random) &&
+          fitsTargets(state, targetTracker)) {
+        if (targetTracker) commitTargetChanges(targetTracker);
+        commitTransaction(state);
+        break;
       }
+      rollbackTransaction(state);
     }
   }
 }
 
+/**
+ * Sample random moves from the current state without keeping any, and
+ * calibrate an adaptive start temperature from the worsening ones.
+ * Failed chain trials aren't held against their targets either.
+ */
+function calibrateTemperature(
+  state: OptimizerState,
+  moveTypes: MoveType[],
+  placeableMutations: string[],
+  chainPool: ChainPool,
+  unlockedSlots: Set<string>,
+  config: OptimizerConfig,
+  random: RandomSource,
+  targetTracker: TargetTracker | null
+): number {
+  const { mutations, failures } = chainPool;
+  chainPool.failures = new Map(failures);
+
+  const worseningDeltas: number[] = [];
+  for (let sample = 0; sample < CALIBRATION_SAMPLES; sample++) {
+    const moveType = moveTypes[randomInt(random, moveTypes.length)];
+    const delta = applyMove(
+      moveType, state, placeableMutations, chainPool, unlockedSlots,
+      config.objectiveType, config.targetMutationId, random, targetTracker
+    );
+    if (delta === null) continue;
+    rollbackTransaction(state);
+    if (delta < 0) worseningDeltas.push(delta);
+  }
+
+  chainPool.mutations = mutations;
+  chainPool.failures = failures;
+
+  const calibrated = calibrateStartTemperature(worseningDeltas, getAdaptiveOptions(config).initialAcceptance);
+  return calibrated ?? config.startTemperature;
+}
+
 /**
  * Calculate acceptance probability for simulated annealing
  */
@@ -276,127 +522,210 @@ function acceptanceProbability(currentScore: number, newScore: number, temperatu
 }
 
 /**
- * Main simulated annealing optimization loop
+ * Build the final result from the best state found so far
  */
-export function optimizeLayout(
+function buildResult(
+  bestState: OptimizerState,
+  config: OptimizerConfig,
+  placeableMutations: string[],
+  iterations: number,
+  finalState: OptimizerState,
+  history: OptimizerResult['history'],
+  seed: number
+): OptimizerResult {
+  // Final validation: remove any mutations that somehow became invalid
+  const state = deepCloneState(bestState);
+  validateAndCleanState(state);
+  const { objectiveType, targetMutationId } = config;
+  const targetTracker = createTargetTracker(state, config.targets, placeableMutations, objectiveType, targetMutationId);
+  state.score = calculateScore(state, objectiveType, targetMutationId) - calculateTargetPenalty(targetTracker);
+
+  return {
+    state,
+    iterations,
+    finalScore: finalState.score,
+    bestScore: state.score,
+    finalState,
+    history: [...history],
+    seed,
+    targets: config.targets && getTargetStatus(state, config.targets)
+  };
+}
+
+/**
+ * Simulated annealing loop as a resumable generator.
+ * Yields a tick at every progress checkpoint; calling next(true) stops the
+ * run early and returns the best state found so far.
+ * Given an initial state (e.g. the designer's layout or a previous run's
+ * best), the run continues from a copy of it instead of a greedy seed.
+ */
+export function* annealLayout(
   unlockedSlots: Set<string>,
   availableMutations: string[],
   config: OptimizerConfig,
-  onProgress?: (progress: OptimizerProgress) => void
-): OptimizerResult {
-  const { maxIterations, startTemperature, coolingRate, objectiveType } = config;
+  initialState?: OptimizerState
+): Generator<OptimizerTick, OptimizerResult, boolean | undefined> {
+  const { maxIterations, startTemperature, objectiveType, targetMutationId } = config;
+  if (objectiveType === 'TARGET_MUTATION' && !targetMutationId) {
+    throw new Error('TARGET_MUTATION needs a targetMutationId');
+  }
+
+  // One PRNG drives every random decision, so a seed reproduces the whole run
+  const seed = config.seed ?? createSeed();
+  const random = createRandom(seed);
+
+  // Growing a target only ever needs its own dependency tree
+  const candidateMutations = objectiveType === 'TARGET_MUTATION'
+    ? getSupportMutations(targetMutationId!).filter(id => availableMutations.includes(id))
+    : availableMutations;
 
   // Filter to only placeable mutations
-  const placeableMutations = filterPlaceableMutations(availableMutations);
+  const placeableMutations = filterPlaceableMutations(candidateMutations);
 
   if (placeableMutations.length === 0) {
-    // Return empty result if no mutations can be placed
-    const emptyState = createEmptyState();
-    return {
-      state: emptyState,
-      iterations: 0,
-      finalScore: 0,
-      bestScore: 0,
-      history: []
-    };
+    // Nothing can be placed, so the starting layout is the result
+    const startState = initialState ? deepCloneState(initialState) : createEmptyState(config.gridSize, config.ground);
+    return buildResult(startState, config, placeableMutations, 0, startState, [], seed);
   }
 
+  // Chain moves are only worth drawing when something has mutation prerequisites
+  const chainPool: ChainPool = {
+    mutations: getChainMutations(
+      objectiveType === 'TARGET_MUTATION' ? placeableMutations.filter(id => id === targetMutationId) : placeableMutations,
+      placeableMutations,
+      unlockedSlots,
+      config.ground ?? {}
+    ),
+    placeable: new Set(placeableMutations),
+    failures: new Map()
+  };
+  const moveTypes: MoveType[] = chainPool.mutations.length > 0 ? [...MOVE_TYPES, 'ADD_CHAIN'] : MOVE_TYPES;
+
   // Create initial state
-  let state = createEmptyState();
+  const state = initialState ? deepCloneState(initialState) : createEmptyState(config.gridSize, config.ground);
+
+  // Count targets, tracked incrementally alongside the score
+  const targetTracker = createTargetTracker(state, config.targets, placeableMutations, objectiveType, targetMutationId);
 
   // Greedy seed initialization with crop-only mutations
-  greedySeed(state, placeableMutations, unlockedSlots, objectiveType);
+  if (!initialState) {
+    if (objectiveType === 'TARGET_MUTATION') {
+      seedTargetChain(state, chainPool, unlockedSlots, random, targetTracker);
+    }
+    greedySeed(state, placeableMutations, unlockedSlots, objectiveType, targetTracker);
+  }
 
   // Calculate initial score
-  state.score = calculateScore(state, objectiveType);
+  state.score = calculateScore(state, objectiveType, targetMutationId) - calculateTargetPenalty(targetTracker);
+  if (config.debug) assertValidLayout(state, unlockedSlots, 'The starting layout');
 
   // Track best state
   let bestState = deepCloneState(state);
   let bestScore = state.score;
 
-  // History for visualization
-  const history: { iteration: number; score: number; temperature: number }[] = [];
-
-  let temperature = startTemperature;
+  const schedule = createTemperatureSchedule(
+    config,
+    config.schedule === 'adaptive'
+      ? calibrateTemperature(state, moveTypes, placeableMutations, chainPool, unlockedSlots, config, random, targetTracker)
+      : startTemperature
+  );
 
-  for (let iteration = 1; iteration <= maxIterations; iteration++) {
-    // Create candidate state
-    const candidate = deepCloneState(state);
+  // History for visualization
+  const history: OptimizerHistoryEntry[] = [];
 
-    // Choose random move type
-    const moveType = MOVE_TYPES[Math.floor(Math.random() * MOVE_TYPES.length)];
+  const historyInterval = Math.max(1, Math.floor(maxIterations / 100));
+  const progressInterval = Math.max(1, Math.min(Math.floor(maxIterations / 50), MAX_PROGRESS_INTERVAL));
 
-    let moveSucceeded = false;
+  let iteration = 0;
 
-    switch (moveType) {
-      case 'ADD_MUTATION':
-        moveSucceeded = tryAddMutation(candidate, placeableMutations, unlockedSlots);
-        break;
-      case 'REMOVE_MUTATION':
-        moveSucceeded = tryRemoveMutation(candidate);
-        break;
-      case 'MOVE_MUTATION':
-        moveSucceeded = tryMoveMutation(candidate, unlockedSlots);
-        break;
-      case 'SWAP_MUTATION':
-        moveSucceeded = trySwapMutation(candidate, placeableMutations, unlockedSlots);
-        break;
-    }
+  while (iteration < maxIterations) {
+    iteration++;
 
-    if (moveSucceeded) {
-      // Calculate new score
-      candidate.score = calculateScore(candidate, objectiveType);
+    // Choose random move type and apply it in place
+    const moveType = moveTypes[randomInt(random, moveTypes.length)];
+    const delta = applyMove(
+      moveType, state, placeableMutations, chainPool, unlockedSlots, objectiveType, targetMutationId, random, targetTracker
+    );
 
-      const delta = candidate.score - state.score;
+    let improvedBest = false;
+    if (delta !== null) {
+      const candidateScore = state.score + delta;
 
       // Accept or reject based on annealing probability
-      if (delta > 0 || Math.random() < acceptanceProbability(state.score, candidate.score, temperature)) {
-        state = candidate;
+      const accepted = delta > 0 || random() < acceptanceProbability(state.score, candidateScore, schedule.temperature);
+      if (delta < 0) recordAcceptance(schedule, accepted);
+      if (accepted) {
+        commitTransaction(state);
+        if (targetTracker) commitTargetChanges(targetTracker);
+        state.score = candidateScore;
+        if (config.debug) assertValidLayout(state, unlockedSlots, `${moveType} at iteration ${iteration}`);
 
         // Update best if improved
         if (state.score > bestScore) {
           bestState = deepCloneState(state);
           bestScore = state.score;
+          improvedBest = true;
         }
+      } else {
+        rollbackTransaction(state);
       }
     }
 
-    // Cool down temperature
-    temperature = temperature * coolingRate;
+    // Cool down, or reheat a stuck adaptive run
+    const reheat = advanceSchedule(schedule, improvedBest);
 
-    // Record history periodically
-    if (iteration % Math.max(1, Math.floor(maxIterations / 100)) === 0) {
+    // Record history periodically, and every reheat
+    if (reheat || iteration % historyInterval === 0) {
       history.push({
         iteration,
         score: state.score,
-        temperature
+        temperature: schedule.temperature,
+        acceptanceRatio: schedule.acceptanceRatio,
+        reheat: reheat || undefined
       });
     }
 
-    // Report progress
-    if (onProgress && iteration % Math.max(1, Math.floor(maxIterations / 50)) === 0) {
-      onProgress({
-        iteration,
-        maxIterations,
-        currentScore: state.score,
-        bestScore,
-        temperature,
-        placedMutationsCount: state.placedMutations.size
-      });
+    // Report progress and give the caller a chance to stop the run
+    if (iteration % progressInterval === 0 || iteration === maxIterations) {
+      const stop = yield {
+        progress: {
+          iteration,
+          maxIterations,
+          currentScore: state.score,
+          bestScore,
+          temperature: schedule.temperature,
+          placedMutationsCount: state.placedMutations.size,
+          acceptanceRatio: schedule.acceptanceRatio,
+          reheats: schedule.reheats
+        },
+        bestState
+      };
+      if (stop) break;
     }
   }
 
-  // Final validation: remove any mutations that somehow became invalid
-  validateAndCleanState(bestState);
-  bestState.score = calculateScore(bestState, objectiveType);
+  return buildResult(bestState, config, placeableMutations, iteration, state, history, seed);
+}
 
-  return {
-    state: bestState,
-    iterations: maxIterations,
-    finalScore: state.score,
-    bestScore: bestState.score,
-    history
-  };
+/**
+ * Main simulated annealing optimization loop
+ */
+export function optimizeLayout(
+  unlockedSlots: Set<string>,
+  availableMutations: string[],
+  config: OptimizerConfig,
+  onProgress?: (progress: OptimizerProgress) => void,
+  initialState?: OptimizerState
+): OptimizerResult {
+  const run = annealLayout(unlockedSlots, availableMutations, config, initialState);
+
+  let step = run.next();
+  while (!step.done) {
+    onProgress?.(step.value.progress);
+    step = run.next();
+  }
+
+  return step.value;
 }
 
 /**
@@ -406,7 +735,8 @@ export const DEFAULT_CONFIG: OptimizerConfig = {
   maxIterations: 20000,
   startTemperature: 200,
   coolingRate: 0.9995,
-  objectiveType: 'MAX_MUTATIONS'
+  objectiveType: 'MAX_MUTATIONS',
+  schedule: 'adaptive'
 };
 
 /**
@@ -416,7 +746,8 @@ export const QUICK_CONFIG: OptimizerConfig = {
   maxIterations: 1000,
   startTemperature: 50,
   coolingRate: 0.99,
-  objectiveType: 'MAX_MUTATIONS'
+  objectiveType: 'MAX_MUTATIONS',
+  schedule: 'adaptive'
 };
 
 /**
@@ -426,5 +757,6 @@ export const THOROUGH_CONFIG: OptimizerConfig = {
   maxIterations: 50000,
   startTemperature: 500,
   coolingRate: 0.9999,
-  objectiveType: 'MAX_MUTATIONS'
+  objectiveType: 'MAX_MUTATIONS',
+  schedule: 'adaptive'
 };
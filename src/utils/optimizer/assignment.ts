@@ -0,0 +1,82 @@
+/**
+ * Minimum-cost assignment of rows to distinct columns (Hungarian method
+ * with potentials, O(rows² × columns)). Used to hand crop requirements to
+ * the cells around a mutation.
+ */
+
+// Cost of a pair that must never be chosen
+export const FORBIDDEN = Infinity;
+
+/**
+ * Assign every row of the cost matrix to its own column, minimizing the
+ * total cost. Returns the chosen column per row, or null when some row
+ * can't be given a column without a forbidden pair.
+ */
+export function solveAssignment(costs: number[][], columnCount: number): number[] | null {
+  const rowCount = costs.length;
+  if (rowCount === 0) return [];
+  if (rowCount > columnCount) return null;
+
+  // Forbidden pairs get a cost no real assignment can reach, checked at the end
+  const finiteCosts = costs.flat().filter(Number.isFinite);
+  const bigM = (Math.max(0, ...finiteCosts.map(Math.abs)) + 1) * (rowCount + 1);
+  const cost = (row: number, column: number) =>
+    Number.isFinite(costs[row][column]) ? costs[row][column] : bigM;
+
+  // 1-based arrays; column 0 is a virtual start column
+  const rowPotential = new Array<number>(rowCount + 1).fill(0);
+  const columnPotential = new Array<number>(columnCount + 1).fill(0);
+  const rowOfColumn = new Array<number>(columnCount + 1).fill(0);
+  const previousColumn = new Array<number>(columnCount + 1).fill(0);
+
+  for (let row = 1; row <= rowCount; row++) {
+    rowOfColumn[0] = row;
+    let column = 0;
+    const minSlack = new Array<number>(columnCount + 1).fill(Infinity);
+    const used = new Array<boolean>(columnCount + 1).fill(false);
+
+    do {
+      used[column] = true;
+      const currentRow = rowOfColumn[column];
+      let delta = Infinity;
+      let nextColumn = 0;
+
+      for (let j = 1; j <= columnCount; j++) {
+        if (used[j]) continue;
+        const slack = cost(currentRow - 1, j - 1) - rowPotential[currentRow] - columnPotential[j];
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack;
+          previousColumn[j] = column;
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j];
+          nextColumn = j;
+        }
+      }
+
+      for (let j = 0; j <= columnCount; j++) {
+        if (used[j]) {
+          rowPotential[rowOfColumn[j]] += delta;
+          columnPotential[j] -= delta;
+        } else {
+          minSlack[j] -= delta;
+        }
+      }
+      column = nextColumn;
+    } while (rowOfColumn[column] !== 0);
+
+    // Flip the augmenting path back to the start
+    do {
+      const previous = previousColumn[column];
+      rowOfColumn[column] = rowOfColumn[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const assignment = new Array<number>(rowCount);
+  for (let j = 1; j <= columnCount; j++) {
+    if (rowOfColumn[j] !== 0) assignment[rowOfColumn[j] - 1] = j - 1;
+  }
+
+  return assignment.every((column, row) => Number.isFinite(costs[row][column])) ? assignment : null;
+}
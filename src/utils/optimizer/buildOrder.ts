@@ -0,0 +1,175 @@
+import type { BuildStage, OptimizerPlacedMutation, OptimizerState, PlannedPlacement, Position, SpecialRecipe } from '@types';
+import { getMutationData, MUTATIONS_DATA } from '@data/mutationsData';
+import { MUTATION_TIERS } from '@utils/tierUtils';
+import { extractRequirements, getAdjacentContents } from './cropSolver';
+import { getAdjacentCells, getGeometryCached, getGridSize, isInBounds } from './geometry';
+import { getCropAt, getMutationAt } from './occupancyIndex';
+import { getRecipe } from './recipes';
+
+/**
+ * Build order for a finished layout. A mutation only grows once the
+ * mutations it needs have grown, so the layout is built tier by tier: each
+ * stage plants the crops its mutations need, waits for them to grow, then
+ * clears the crops no later mutation needs. Grown mutations stay without
+ * their requirements, so a crop that serves mutations is only there to grow
+ * them; crops that serve nothing are planted last and kept. A recipe
+ * product is grown as the mutation it comes from, and the rest of the
+ * recipe is carried out on its support once that has grown.
+ */
+
+function byPosition(a: PlannedPlacement, b: PlannedPlacement): number {
+  return a.position.y - b.position.y || a.position.x - b.position.x;
+}
+
+/**
+ * Placed crops next to a mutation that count towards its crop requirements
+ */
+function getServingCropIds(placed: OptimizerPlacedMutation, state: OptimizerState): string[] {
+  const mutation = getMutationData(placed.mutationId);
+  if (!mutation) return [];
+
+  const { crops } = extractRequirements(mutation.conditions);
+  const { adjacentCrops } = getAdjacentContents(placed.position, placed.mutationId, state);
+
+  const ids: string[] = [];
+  for (const [crop, positions] of adjacentCrops) {
+    if (!crops.has(crop)) continue;
+    for (const position of positions) {
+      const cropId = getCropAt(state, position);
+      if (cropId) ids.push(cropId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Instructions for the steps of a recipe after the mutation its product
+ * grows from. Mutations that go next to the product take the cells of its
+ * support first, since the support isn't needed any more by then.
+ */
+function planRecipeSteps(placed: OptimizerPlacedMutation, recipe: SpecialRecipe, state: OptimizerState): string[] {
+  const gridSize = getGridSize(state.grid);
+  const cells = getAdjacentCells(placed.position, getGeometryCached(placed.mutationId)).filter(cell => isInBounds(cell, gridSize));
+  const { mutations } = extractRequirements(getMutationData(placed.mutationId)?.conditions ?? {});
+  const occupantAt = (cell: Position) => {
+    const placedId = getMutationAt(state, cell);
+    return placedId ? state.placedMutations.get(placedId)?.mutationId ?? null : null;
+  };
+  const isSupport = (cell: Position) => mutations.has(occupantAt(cell) ?? '');
+  const free = [...cells.filter(isSupport), ...cells.filter(cell => !isSupport(cell))];
+
+  const steps: string[] = [];
+  const cleanup: string[] = [];
+  for (const step of recipe.steps) {
+    switch (step.type) {
+      case 'mutation': {
+        if (step.placement === 'product') break;
+        const name = formatPlacementName(step.mutationId);
+        const cell = free.shift();
+        if (!cell) {
+          steps.push(`Plant a ${name} next to it`);
+          break;
+        }
+        const occupant = occupantAt(cell);
+        steps.push(`Plant a ${name} at ${formatPosition(cell)}${occupant ? ` in place of the ${formatPlacementName(occupant)}` : ''}`);
+        cleanup.push(occupant ? `Replace the ${name} with the ${formatPlacementName(occupant)} again` : `Remove the ${name}`);
+        break;
+      }
+      case 'item':
+        steps.push(`Plant a ${step.name} at ${formatPosition(placed.position)}`);
+        break;
+      case 'action':
+        steps.push(step.description);
+        break;
+    }
+  }
+  return [...steps, ...cleanup];
+}
+
+/**
+ * Stages to build a layout in, one per mutation tier present, lowest first
+ */
+export function planBuildOrder(state: OptimizerState): BuildStage[] {
+  const mutations = Array.from(state.placedMutations.values());
+  const tiers = Array.from(new Set(mutations.map(placed => MUTATION_TIERS[placed.mutationId] || 0))).sort((a, b) => a - b);
+  const stages: BuildStage[] = tiers.map(tier => ({ tier, plant: [], grow: [], recipes: [], remove: [] }));
+  const stageOfTier = new Map(tiers.map((tier, index) => [tier, index]));
+
+  // Stages of the mutations each crop serves
+  const servedStages = new Map<string, number[]>();
+  for (const placed of mutations) {
+    const stage = stageOfTier.get(MUTATION_TIERS[placed.mutationId] || 0)!;
+    const recipe = getRecipe(placed.mutationId);
+    if (recipe) {
+      const grownFrom = recipe.steps.find(step => step.type === 'mutation' && step.placement === 'product');
+      if (grownFrom?.type === 'mutation') stages[stage].grow.push({ placedId: placed.id, id: grownFrom.mutationId, position: placed.position });
+      stages[stage].recipes.push({ placedId: placed.id, id: placed.mutationId, position: placed.position, steps: planRecipeSteps(placed, recipe, state) });
+    } else {
+      stages[stage].grow.push({ placedId: placed.id, id: placed.mutationId, position: placed.position });
+    }
+
+    for (const cropId of getServingCropIds(placed, state)) {
+      servedStages.set(cropId, [...(servedStages.get(cropId) ?? []), stage]);
+    }
+  }
+
+  for (const crop of state.placedCrops.values()) {
+    const placement = { placedId: crop.id, id: crop.crop, position: crop.position };
+    const served = servedStages.get(crop.id);
+
+    if (!served) {
+      if (stages.length === 0) stages.push({ tier: 0, plant: [], grow: [], recipes: [], remove: [] });
+      stages[stages.length - 1].plant.push(placement);
+      continue;
+    }
+
+    // Planted for the first mutation it serves, cleared after the last has grown
+    stages[Math.min(...served)].plant.push(placement);
+    stages[Math.max(...served)].remove.push(placement);
+  }
+
+  for (const stage of stages) {
+    stage.plant.sort(byPosition);
+    stage.grow.sort(byPosition);
+    stage.recipes.sort(byPosition);
+    stage.remove.sort(byPosition);
+  }
+  return stages;
+}
+
+function formatPlacementName(id: string): string {
+  return MUTATIONS_DATA[id]?.name ?? id.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+// 1-based, the way players count rows and columns
+function formatPosition(position: Position): string {
+  return `row ${position.y + 1}, col ${position.x + 1}`;
+}
+
+/**
+ * A build plan as plain text, one line per placement
+ */
+export function formatBuildPlan(stages: BuildStage[]): string {
+  const lines: string[] = [];
+  const section = (title: string, placements: PlannedPlacement[]) => {
+    if (placements.length === 0) return;
+    lines.push(`  ${title}:`);
+    for (const placement of placements) {
+      lines.push(`    ${formatPlacementName(placement.id)} (${formatPosition(placement.position)})`);
+    }
+  };
+
+  stages.forEach((stage, index) => {
+    if (index > 0) lines.push('');
+    lines.push(`Stage ${index + 1} of ${stages.length} (tier ${stage.tier})`);
+    section('Plant', stage.plant);
+    section('Wait for these mutations to grow', stage.grow);
+    for (const recipe of stage.recipes) {
+      lines.push(`  Make the ${formatPlacementName(recipe.id)} (${formatPosition(recipe.position)}):`);
+      for (const step of recipe.steps) lines.push(`    ${step}`);
+    }
+    section('Then remove', stage.remove);
+  });
+
+  return lines.join('\n');
+}
@@ -1,9 +1,39 @@
-import type { Position, OptimizerState, MutationConditions } from '@types';
+import type { Position, OptimizerState, MutationConditions, RequirementStatus } from '@types';
 import { getMutationData, MUTATIONS_DATA } from '@data/mutationsData';
-import { getGeometryCached, getAdjacentCells, isInBounds, getOccupiedCells } from './geometry';
+import {
+  getGeometryCached,
+  getAdjacentCells,
+  getGridSize,
+  isInBounds,
+  getCellGround,
+  canFitOnGround,
+  canPlaceCropOnGround,
+  computeAdjacencyRing
+} from './geometry';
+import { getMutationAt, getCropAt } from './occupancyIndex';
+import { getStateEffectSources, resolveEffectSources, getMissingPositiveEffects, POSITIVE_EFFECT_KIND_IDS } from '@utils/effects';
+import type { PositiveEffectKind } from '@utils/effects';
+import { getRecipeConditions } from './recipes';
+import { solveAssignment, FORBIDDEN } from './assignment';
+
+// Neighbourhood of a single cell, used to look outward from a crop
+const SINGLE_CELL_RING = computeAdjacencyRing(1, 1);
+
+// Reward per free cell next to a crop where a mutation placed later could
+// share it; small enough never to outweigh a neighbour that already needs it
+const PENDING_SHARE_REWARD = 0.1;
+
+// Per-cell cost along the ring, so crop placements that share equally well
+// settle on the earliest cells; small enough never to outweigh a free neighbour
+const RING_ORDER_COST = 1e-3;
+
+// Godseed's condition: every positive effect kind must reach its footprint
+export const ALL_POSITIVE_EFFECTS_CONDITION = 'all_positive_crop_effects';
 
 /**
- * Extract required crops/mutations from conditions (excluding special rules)
+ * Extract required crops/mutations from conditions (excluding special rules).
+ * A special condition with a garden-only recipe is replaced by the
+ * requirements of the recipe's intermediate layout.
  */
 export function extractRequirements(conditions: MutationConditions): {
   crops: Map<string, number>;
@@ -16,7 +46,9 @@ export function extractRequirements(conditions: MutationConditions): {
   let adjacentCrops: number | null = null;
   let special: string | null = null;
 
-  for (const [key, value] of Object.entries(conditions)) {
+  const recipeConditions = conditions.special ? getRecipeConditions(conditions.special) : null;
+
+  for (const [key, value] of Object.entries(recipeConditions ?? conditions)) {
     if (key === 'special') {
       special = value as string;
     } else if (key === 'adjacent_crops') {
@@ -51,16 +83,18 @@ export function getAdjacentContents(
   const adjacentCrops = new Map<string, Position[]>();
   const adjacentMutations = new Map<string, string[]>();
   let totalAdjacentCrops = 0;
+  const gridSize = getGridSize(state.grid);
 
   for (const cell of adjacentCells) {
-    if (!isInBounds(cell)) continue;
-
-    const cellContent = state.grid[cell.y]?.[cell.x];
-    if (!cellContent) continue;
+    if (!isInBounds(cell, gridSize)) continue;
 
     // Check if it's a crop
-    const placedCrop = state.placedCrops.get(cellContent);
+    const cropId = getCropAt(state, cell);
+    const placedCrop = cropId ? state.placedCrops.get(cropId) : undefined;
     if (placedCrop) {
+      // A crop on the wrong ground never grows, so it cannot satisfy anything
+      if (!canPlaceCropOnGround(placedCrop.crop, getCellGround(state.ground, cell))) continue;
+
       const cropType = placedCrop.crop;
       if (!adjacentCrops.has(cropType)) {
         adjacentCrops.set(cropType, []);
@@ -71,18 +105,16 @@ export function getAdjacentContents(
     }
 
     // Check if it's a mutation
-    for (const [placedId, placedMutation] of state.placedMutations) {
-      const occupiedCells = getOccupiedCells(placedMutation.position, placedMutation.geometry);
-      if (occupiedCells.some(c => c.x === cell.x && c.y === cell.y)) {
-        const mutationType = placedMutation.mutationId;
-        if (!adjacentMutations.has(mutationType)) {
-          adjacentMutations.set(mutationType, []);
-        }
-        // Only add unique placed IDs
-        if (!adjacentMutations.get(mutationType)!.includes(placedId)) {
-          adjacentMutations.get(mutationType)!.push(placedId);
-        }
-        break;
+    const placedId = getMutationAt(state, cell);
+    const placedMutation = placedId ? state.placedMutations.get(placedId) : undefined;
+    if (placedId && placedMutation) {
+      const mutationType = placedMutation.mutationId;
+      if (!adjacentMutations.has(mutationType)) {
+        adjacentMutations.set(mutationType, []);
+      }
+      // Only add unique placed IDs
+      if (!adjacentMutations.get(mutationType)!.includes(placedId)) {
+        adjacentMutations.get(mutationType)!.push(placedId);
       }
     }
   }
@@ -104,11 +136,22 @@ export function areConditionsSatisfied(
 
   const { crops, mutations, adjacentCrops, special } = extractRequirements(mutation.conditions);
 
-  // Special conditions cannot be satisfied by the optimizer
-  if (special) {
+  // Other special conditions cannot be satisfied by the optimizer
+  if (special && special !== ALL_POSITIVE_EFFECTS_CONDITION) {
     return { satisfied: false, reason: `Special condition: ${special}` };
   }
 
+  if (!canFitOnGround(mutationId, position, getGeometryCached(mutationId), state.ground)) {
+    return { satisfied: false, reason: `Needs ${mutation.ground} ground` };
+  }
+
+  if (special === ALL_POSITIVE_EFFECTS_CONDITION) {
+    const missing = getMissingEffectKinds(mutationId, position, state);
+    if (missing.length > 0) {
+      return { satisfied: false, reason: `Missing effects: ${missing.join(', ')}` };
+    }
+  }
+
   const { adjacentCrops: existingCrops, adjacentMutations: existingMutations, totalAdjacentCrops } =
     getAdjacentContents(position, mutationId, state);
 
@@ -140,6 +183,49 @@ export function areConditionsSatisfied(
   return { satisfied: true };
 }
 
+/**
+ * Every requirement of a mutation at a position with its have/need counts,
+ * by the same rules as areConditionsSatisfied. Ground isn't a requirement
+ * here; it is checked separately.
+ */
+export function getRequirementStatus(
+  mutationId: string,
+  position: Position,
+  state: OptimizerState
+): RequirementStatus[] {
+  const mutation = getMutationData(mutationId);
+  if (!mutation) return [];
+
+  const { crops, mutations, adjacentCrops, special } = extractRequirements(mutation.conditions);
+  const { adjacentCrops: existingCrops, adjacentMutations: existingMutations, totalAdjacentCrops } =
+    getAdjacentContents(position, mutationId, state);
+  const status: RequirementStatus[] = [];
+
+  if (special === ALL_POSITIVE_EFFECTS_CONDITION) {
+    const missing = getMissingEffectKinds(mutationId, position, state).length;
+    const need = POSITIVE_EFFECT_KIND_IDS.length;
+    status.push({ id: special, have: need - missing, need, met: missing === 0 });
+  } else if (special) {
+    status.push({ id: special, have: 0, need: 1, met: false });
+  }
+
+  if (adjacentCrops === 0) {
+    status.push({ id: 'adjacent_crops', have: totalAdjacentCrops, need: 0, met: totalAdjacentCrops === 0 });
+  }
+
+  for (const [cropType, need] of crops) {
+    const have = existingCrops.get(cropType)?.length || 0;
+    status.push({ id: cropType, have, need, met: have >= need });
+  }
+
+  for (const [mutationType, need] of mutations) {
+    const have = existingMutations.get(mutationType)?.length || 0;
+    status.push({ id: mutationType, have, need, met: have >= need });
+  }
+
+  return status;
+}
+
 /**
  * Check if a mutation CAN have its conditions satisfied at a position
  * This checks if there's enough space for required crops
@@ -153,9 +239,14 @@ export function canSatisfyConditions(
   const mutation = getMutationData(mutationId);
   if (!mutation) return false;
 
-  const { crops, mutations, adjacentCrops, special } = extractRequirements(mutation.conditions);
+  const { mutations, adjacentCrops, special } = extractRequirements(mutation.conditions);
 
-  // Skip special conditions (Godseed, Shellfruit, Jerryflower)
+  // Godseed's effects come from mutations that are placed before it
+  if (special === ALL_POSITIVE_EFFECTS_CONDITION) {
+    return getMissingEffectKinds(mutationId, position, state).length === 0;
+  }
+
+  // Skip the other special conditions (Jerryflower)
   if (special) return false;
 
   // For Lonelily (adjacent_crops === 0), check no crops are adjacent
@@ -176,29 +267,8 @@ export function canSatisfyConditions(
     }
   }
 
-  // Check if we have enough adjacent unlocked empty cells for crops
-  const geometry = getGeometryCached(mutationId);
-  const adjacentCells = getAdjacentCells(position, geometry).filter(cell =>
-    isInBounds(cell) && unlockedSlots.has(`${cell.y},${cell.x}`)
-  );
-
-  // Get already satisfied crop requirements
-  const { adjacentCrops: existingCrops } = getAdjacentContents(position, mutationId, state);
-
-  // Calculate remaining crops needed
-  let remainingCropsNeeded = 0;
-  for (const [cropType, needed] of crops) {
-    const existing = existingCrops.get(cropType)?.length || 0;
-    remainingCropsNeeded += Math.max(0, needed - existing);
-  }
-
-  // Count empty adjacent cells
-  const emptyAdjacentCells = adjacentCells.filter(cell => {
-    const content = state.grid[cell.y]?.[cell.x];
-    return content === null;
-  });
-
-  return emptyAdjacentCells.length >= remainingCropsNeeded;
+  // Check if the remaining crops fit on adjacent empty cells with suitable ground
+  return findCropPlacements(mutationId, position, state, unlockedSlots) !== null;
 }
 
 /**
@@ -233,18 +303,101 @@ export function needsIsolation(mutationId: string): boolean {
   return mutation.conditions.adjacent_crops === 0;
 }
 
+/**
+ * Check if a mutation needs every positive effect kind to reach it (Godseed)
+ */
+export function needsAllPositiveEffects(mutationId: string): boolean {
+  return getMutationData(mutationId)?.conditions.special === ALL_POSITIVE_EFFECTS_CONDITION;
+}
+
+/**
+ * Positive effect kinds that don't yet reach a mutation placed at a position
+ */
+export function getMissingEffectKinds(
+  mutationId: string,
+  position: Position,
+  state: OptimizerState
+): PositiveEffectKind[] {
+  const { width, height } = getGeometryCached(mutationId);
+  const sources = resolveEffectSources(getStateEffectSources(state));
+  return getMissingPositiveEffects({ position, width, height }, sources);
+}
+
 /**
  * Check if a mutation has special conditions that can't be auto-satisfied
  */
 export function hasSpecialConditions(mutationId: string): boolean {
-  const mutation = getMutationData(mutationId);
-  if (!mutation) return false;
+  const special = getMutationData(mutationId)?.conditions.special;
+  return special !== undefined && special !== ALL_POSITIVE_EFFECTS_CONDITION && !getRecipeConditions(special);
+}
+
+/**
+ * Placed mutations next to a cell that need a crop type and don't yet have
+ * enough of it, other than the one excluded
+ */
+export function findCropSharers(
+  position: Position,
+  cropType: string,
+  state: OptimizerState,
+  excludeId: string | null
+): string[] {
+  const sharers: string[] = [];
+  for (const offset of SINGLE_CELL_RING) {
+    const placedId = getMutationAt(state, { x: position.x + offset.dx, y: position.y + offset.dy });
+    if (!placedId || placedId === excludeId || sharers.includes(placedId)) continue;
+
+    const placedMutation = state.placedMutations.get(placedId);
+    if (!placedMutation) continue;
+    const needed = getRequiredCrops(placedMutation.mutationId).get(cropType);
+    if (!needed) continue;
+
+    const { adjacentCrops } = getAdjacentContents(placedMutation.position, placedMutation.mutationId, state);
+    if ((adjacentCrops.get(cropType)?.length || 0) < needed) sharers.push(placedId);
+  }
+  return sharers;
+}
 
-  return mutation.conditions.special !== undefined;
+/**
+ * Free cells next to a cell where another mutation with the same crop
+ * requirements would already have one of its other crops but still lack
+ * this type, so a crop of this type put at the cell could later serve it
+ */
+function countPendingSharerCells(
+  position: Position,
+  cropType: string,
+  requiredCrops: Map<string, number>,
+  state: OptimizerState,
+  unlockedSlots: Set<string>
+): number {
+  let pending = 0;
+  for (const offset of SINGLE_CELL_RING) {
+    const cell = { x: position.x + offset.dx, y: position.y + offset.dy };
+    if (!unlockedSlots.has(`${cell.y},${cell.x}`) || state.grid[cell.y]?.[cell.x] !== null) continue;
+
+    let hasOtherCrop = false;
+    let hasCropType = false;
+    for (const { dx, dy } of SINGLE_CELL_RING) {
+      const cropId = getCropAt(state, { x: cell.x + dx, y: cell.y + dy });
+      const crop = cropId && state.placedCrops.get(cropId)?.crop;
+      if (!crop) continue;
+      if (crop === cropType) hasCropType = true;
+      else if (requiredCrops.has(crop)) hasOtherCrop = true;
+    }
+    if (hasOtherCrop && !hasCropType) pending++;
+  }
+  return pending;
 }
 
 /**
- * Find positions to place crops to satisfy a mutation's requirements
+ * Find positions to place crops to satisfy a mutation's requirements.
+ * Existing adjacent crops are reused first; the rest is solved as an
+ * assignment of this mutation's crop units to its free ring cells, scored
+ * by how many neighbours' shortfalls each crop would make up, so one crop
+ * can serve several mutations. Mutations placed one at a time leave no
+ * shortfalls behind, so cells next to where a later copy would find its
+ * other crops come next. Only this mutation's crops are assigned, and the
+ * later-copy reward is a heuristic, so the result is the best placement
+ * for this mutation, not for every pending requirement around it.
  * Returns null if requirements cannot be satisfied
  */
 export function findCropPlacements(
@@ -253,51 +406,139 @@ export function findCropPlacements(
   state: OptimizerState,
   unlockedSlots: Set<string>
 ): Map<string, Position[]> | null {
+  const shortfall = getCropShortfall(mutationId, mutationPosition, state, unlockedSlots);
+  if (!shortfall) return null;
+
+  const { placements, units, emptyCells } = shortfall;
+  if (units.length === 0) return placements;
+
+  const requiredCrops = getRequiredCrops(mutationId);
+  const selfId = getMutationAt(state, mutationPosition);
+  const costByType = new Map<string, number[]>();
+  for (const cropType of new Set(units)) {
+    costByType.set(cropType, emptyCells.map((cell, cellIndex) => {
+      if (!canPlaceCropOnGround(cropType, getCellGround(state.ground, cell))) return FORBIDDEN;
+      return -findCropSharers(cell, cropType, state, selfId).length
+        - countPendingSharerCells(cell, cropType, requiredCrops, state, unlockedSlots) * PENDING_SHARE_REWARD
+        + cellIndex * RING_ORDER_COST;
+    }));
+  }
+
+  const assignment = solveAssignment(units.map(cropType => costByType.get(cropType)!), emptyCells.length);
+  if (!assignment) {
+    // Not enough empty cells with suitable ground - can't satisfy
+    return null;
+  }
+
+  assignment.forEach((cellIndex, unit) => {
+    const positions = placements.get(units[unit]) || [];
+    positions.push(emptyCells[cellIndex]);
+    placements.set(units[unit], positions);
+  });
+
+  return placements;
+}
+
+/**
+ * Every way to make up a mutation's missing crops with as few new crops as
+ * possible: existing adjacent crops are reused, and each combination of
+ * free ring cells per missing crop type is one option. Empty when the
+ * requirements cannot be satisfied.
+ */
+export function enumerateCropPlacements(
+  mutationId: string,
+  mutationPosition: Position,
+  state: OptimizerState,
+  unlockedSlots: Set<string>
+): Map<string, Position[]>[] {
+  const shortfall = getCropShortfall(mutationId, mutationPosition, state, unlockedSlots);
+  if (!shortfall) return [];
+
+  const { placements, units, emptyCells } = shortfall;
+  const missing = new Map<string, number>();
+  for (const cropType of units) missing.set(cropType, (missing.get(cropType) || 0) + 1);
+  const cropTypes = Array.from(missing.keys());
+
+  const options: Map<string, Position[]>[] = [];
+  const taken = new Set<number>();
+  const chosen = new Map<string, Position[]>();
+
+  // Pick cells for one crop type at a time, in increasing cell order within a type
+  const pick = (typeIndex: number, from: number, cells: number[]) => {
+    if (typeIndex === cropTypes.length) {
+      const option = new Map(Array.from(placements, ([cropType, positions]) => [cropType, [...positions]]));
+      for (const [cropType, positions] of chosen) {
+        option.set(cropType, [...(option.get(cropType) || []), ...positions]);
+      }
+      options.push(option);
+      return;
+    }
+
+    const cropType = cropTypes[typeIndex];
+    if (cells.length === missing.get(cropType)) {
+      chosen.set(cropType, cells.map(cellIndex => emptyCells[cellIndex]));
+      cells.forEach(cellIndex => taken.add(cellIndex));
+      pick(typeIndex + 1, 0, []);
+      cells.forEach(cellIndex => taken.delete(cellIndex));
+      chosen.delete(cropType);
+      return;
+    }
+
+    for (let cellIndex = from; cellIndex < emptyCells.length; cellIndex++) {
+      if (taken.has(cellIndex)) continue;
+      if (!canPlaceCropOnGround(cropType, getCellGround(state.ground, emptyCells[cellIndex]))) continue;
+      pick(typeIndex, cellIndex + 1, [...cells, cellIndex]);
+    }
+  };
+  pick(0, 0, []);
+
+  return options;
+}
+
+/**
+ * What a mutation at a position still lacks in crops: the existing adjacent
+ * crops that already count, one unit per crop still to place, and the free
+ * ring cells those may take without touching an isolated mutation. Null
+ * when there are fewer free cells than units.
+ */
+function getCropShortfall(
+  mutationId: string,
+  mutationPosition: Position,
+  state: OptimizerState,
+  unlockedSlots: Set<string>
+): { placements: Map<string, Position[]>; units: string[]; emptyCells: Position[] } | null {
   const requiredCrops = getRequiredCrops(mutationId);
   const placements = new Map<string, Position[]>();
 
-  if (requiredCrops.size === 0) return placements;
+  if (requiredCrops.size === 0) return { placements, units: [], emptyCells: [] };
 
   const geometry = getGeometryCached(mutationId);
   const adjacentCells = getAdjacentCells(mutationPosition, geometry)
-    .filter(cell => isInBounds(cell) && unlockedSlots.has(`${cell.y},${cell.x}`));
+    .filter(cell => isInBounds(cell, getGridSize(state.grid)) && unlockedSlots.has(`${cell.y},${cell.x}`));
 
   // Get existing crops that can satisfy requirements
   const { adjacentCrops: existingCrops } = getAdjacentContents(mutationPosition, mutationId, state);
 
-  // Track remaining requirements
-  const remaining = new Map<string, number>();
+  // One entry per crop still to place
+  const units: string[] = [];
   for (const [cropType, needed] of requiredCrops) {
     const existing = existingCrops.get(cropType)?.length || 0;
-    const stillNeeded = Math.max(0, needed - existing);
-    remaining.set(cropType, stillNeeded);
+    for (let i = existing; i < needed; i++) units.push(cropType);
 
     // Add existing crop positions to placements
     if (existing > 0) {
       placements.set(cropType, existingCrops.get(cropType)!.slice(0, needed));
     }
   }
+  if (units.length === 0) return { placements, units, emptyCells: [] };
 
-  // Find empty cells for remaining crops
-  const emptyCells = adjacentCells.filter(cell => state.grid[cell.y]?.[cell.x] === null);
-
-  let cellIndex = 0;
-  for (const [cropType, needed] of remaining) {
-    if (needed <= 0) continue;
-
-    const positions: Position[] = placements.get(cropType) || [];
-    for (let i = 0; i < needed; i++) {
-      if (cellIndex >= emptyCells.length) {
-        // Not enough empty cells - can't satisfy
-        return null;
-      }
-      positions.push(emptyCells[cellIndex]);
-      cellIndex++;
-    }
-    placements.set(cropType, positions);
-  }
+  // Free cells a crop may take without touching an isolated mutation
+  const emptyCells = adjacentCells.filter(cell =>
+    state.grid[cell.y]?.[cell.x] === null && !wouldViolateIsolation(cell, state)
+  );
+  if (emptyCells.length < units.length) return null;
 
-  return placements;
+  return { placements, units, emptyCells };
 }
 
 /**
@@ -307,12 +548,14 @@ export function wouldViolateIsolation(
   position: Position,
   state: OptimizerState
 ): boolean {
-  // Check all placed mutations that need isolation
-  for (const [, placedMutation] of state.placedMutations) {
-    if (!needsIsolation(placedMutation.mutationId)) continue;
-
-    const adjacentCells = getAdjacentCells(placedMutation.position, placedMutation.geometry);
-    if (adjacentCells.some(cell => cell.x === position.x && cell.y === position.y)) {
+  // Adjacency is symmetric, so look at the mutations around the cell instead
+  // of walking every placed mutation's ring
+  for (const offset of SINGLE_CELL_RING) {
+    const placedId = getMutationAt(state, { x: position.x + offset.dx, y: position.y + offset.dy });
+    if (!placedId) continue;
+
+    const placedMutation = state.placedMutations.get(placedId);
+    if (placedMutation && needsIsolation(placedMutation.mutationId)) {
       return true; // This would place a crop adjacent to an isolated mutation
     }
   }
@@ -0,0 +1,421 @@
+import type { Position, GroundType, OptimizerState } from '@types';
+import { MUTATION_TIERS } from '@utils/tierUtils';
+import {
+  getGeometryCached,
+  getAdjacentCells,
+  getOccupiedCells,
+  canFitInGrid,
+  getGridSize,
+  canFitInUnlockedSlots,
+  checkGroundCompatibility,
+  canPlaceCropOnGround,
+  canFitOnGround,
+  getCellGround
+} from './geometry';
+import { getMutationAt } from './occupancyIndex';
+import {
+  getAdjacentContents,
+  getRequiredMutations,
+  getRequiredCrops,
+  needsAllPositiveEffects,
+  getMissingEffectKinds,
+  hasSpecialConditions
+} from './cropSolver';
+import { getMutationData, MUTATIONS_DATA } from '@data/mutationsData';
+import {
+  POSITIVE_EFFECT_KINDS,
+  POSITIVE_EFFECT_KIND_IDS,
+  createEffectSource,
+  resolveEffectSources
+} from '@utils/effects';
+import type { PositiveEffectKind } from '@utils/effects';
+import type { RandomSource } from './random';
+import {
+  placeMutation,
+  placeRequiredCrops,
+  createSavepoint,
+  rollbackToSavepoint,
+  isCellOccupied,
+  getUnlockedPositions,
+  shuffleArray
+} from './stateManager';
+
+// Anchor positions tried for each missing prerequisite before giving up on it
+const MAX_PREREQUISITE_ATTEMPTS = 4;
+
+// Placement attempts allowed for one whole chain, across all levels
+const MAX_CHAIN_PLACEMENTS = 24;
+
+// Placement attempts for a chain that also builds effect providers (one tree per kind)
+const MAX_EFFECT_CHAIN_PLACEMENTS = 64;
+
+// Effect providers tried for each missing effect kind before giving up on it
+const MAX_PROVIDER_CANDIDATES = 3;
+
+interface ChainContext {
+  placeableMutations: Set<string>;
+  budget: number;
+  random: RandomSource;
+}
+
+/**
+ * Copy of the unlocked slots without the given cells
+ */
+function withoutCells(unlockedSlots: Set<string>, cells: Position[]): Set<string> {
+  const slots = new Set(unlockedSlots);
+  for (const cell of cells) {
+    slots.delete(`${cell.y},${cell.x}`);
+  }
+  return slots;
+}
+
+/**
+ * Anchor positions where a prerequisite would fit and touch the target's adjacency ring
+ */
+function getPrerequisiteAnchors(
+  prerequisiteId: string,
+  targetPosition: Position,
+  targetId: string,
+  state: OptimizerState,
+  unlockedSlots: Set<string>,
+  random: RandomSource
+): Position[] {
+  const geometry = getGeometryCached(prerequisiteId);
+  const ring = getAdjacentCells(targetPosition, getGeometryCached(targetId))
+    .filter(cell => unlockedSlots.has(`${cell.y},${cell.x}`) && !isCellOccupied(state, cell));
+
+  const anchors = new Map<string, Position>();
+  for (const cell of ring) {
+    for (const offset of geometry.footprint) {
+      const anchor = { x: cell.x - offset.dx, y: cell.y - offset.dy };
+      const key = `${anchor.y},${anchor.x}`;
+      if (anchors.has(key)) continue;
+      if (!canFitInGrid(anchor, geometry, getGridSize(state.grid)) || !canFitInUnlockedSlots(anchor, geometry, unlockedSlots)) continue;
+      if (getOccupiedCells(anchor, geometry).some(c => isCellOccupied(state, c))) continue;
+      anchors.set(key, anchor);
+    }
+  }
+
+  return shuffleArray(Array.from(anchors.values()), random);
+}
+
+/**
+ * Anchor positions where a provider would fit with its own effects reaching
+ * the target's footprint. Its own spread widens that reach, so spreaders
+ * can sit further out; the furthest anchors come first, leaving the cells
+ * next to the target to providers that can't reach further.
+ */
+function getProviderAnchors(
+  providerId: string,
+  targetPosition: Position,
+  targetId: string,
+  state: OptimizerState,
+  unlockedSlots: Set<string>,
+  random: RandomSource
+): Position[] {
+  const geometry = getGeometryCached(providerId);
+  const target = getGeometryCached(targetId);
+  const source = createEffectSource(providerId, targetPosition);
+  if (!source) return [];
+  const reach = resolveEffectSources([source])[0].radius;
+
+  const byGap: Position[][] = Array.from({ length: reach }, () => []);
+  for (let y = targetPosition.y - reach - geometry.height + 1; y <= targetPosition.y + target.height - 1 + reach; y++) {
+    for (let x = targetPosition.x - reach - geometry.width + 1; x <= targetPosition.x + target.width - 1 + reach; x++) {
+      const anchor = { x, y };
+      const gapX = Math.max(targetPosition.x - (x + geometry.width - 1), 0, x - (targetPosition.x + target.width - 1));
+      const gapY = Math.max(targetPosition.y - (y + geometry.height - 1), 0, y - (targetPosition.y + target.height - 1));
+      const gap = Math.max(gapX, gapY);
+      if (gap === 0) continue;
+      if (!canFitInGrid(anchor, geometry, getGridSize(state.grid)) || !canFitInUnlockedSlots(anchor, geometry, unlockedSlots)) continue;
+      if (!canFitOnGround(providerId, anchor, geometry, state.ground)) continue;
+      if (getOccupiedCells(anchor, geometry).some(cell => isCellOccupied(state, cell))) continue;
+      byGap[gap - 1].push(anchor);
+    }
+  }
+
+  return byGap.reverse().flatMap(anchors => shuffleArray(anchors, random));
+}
+
+/**
+ * Mutations among the candidates with an effect of any of the given kinds,
+ * those covering the most kinds first and then the cheapest (lowest tier)
+ * chains. Mutations that need effects themselves are never providers.
+ * Ties are broken randomly when a random source is given.
+ */
+export function getEffectProviders(
+  kinds: PositiveEffectKind[],
+  candidates: Iterable<string>,
+  random?: RandomSource
+): string[] {
+  const coverage = new Map<string, number>();
+  for (const mutationId of candidates) {
+    if (needsAllPositiveEffects(mutationId)) continue;
+    const effects = getMutationData(mutationId)?.effects ?? [];
+    const covered = kinds.filter(kind => POSITIVE_EFFECT_KINDS[kind].some((effect: string) => effects.includes(effect))).length;
+    if (covered > 0) coverage.set(mutationId, covered);
+  }
+
+  const providers = Array.from(coverage.keys());
+  return (random ? shuffleArray(providers, random) : providers).sort((a, b) =>
+    coverage.get(b)! - coverage.get(a)! || (MUTATION_TIERS[a] || 0) - (MUTATION_TIERS[b] || 0)
+  );
+}
+
+/**
+ * Check that every positive effect kind has a provider among the candidates
+ * that can grow on the given ground types
+ */
+export function hasEffectProviders(candidates: string[], grounds: Set<GroundType>): boolean {
+  const growable = candidates.filter(mutationId => hasGroundForChain(mutationId, grounds));
+  return POSITIVE_EFFECT_KIND_IDS.every(kind => getEffectProviders([kind], growable).length > 0);
+}
+
+/**
+ * Quick necessary check that a mutation's adjacency ring has enough free or
+ * already-matching cells, on suitable ground, for each of its prerequisites
+ */
+export function hasRoomForChain(
+  mutationId: string,
+  position: Position,
+  state: OptimizerState,
+  unlockedSlots: Set<string>
+): boolean {
+  const requiredMutations = getRequiredMutations(mutationId);
+  if (requiredMutations.size === 0) return true;
+
+  const ring = getAdjacentCells(position, getGeometryCached(mutationId))
+    .filter(cell => unlockedSlots.has(`${cell.y},${cell.x}`));
+
+  for (const [prerequisiteId, needed] of requiredMutations) {
+    const prerequisiteGround = getMutationData(prerequisiteId)?.ground;
+    if (!prerequisiteGround) return false;
+
+    let room = 0;
+    for (const cell of ring) {
+      if (isCellOccupied(state, cell)) {
+        const placedId = getMutationAt(state, cell);
+        if (placedId && state.placedMutations.get(placedId)?.mutationId === prerequisiteId) room++;
+      } else if (checkGroundCompatibility(prerequisiteGround, getCellGround(state.ground, cell))) {
+        room++;
+      }
+    }
+    if (room < needed) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Place a mutation, building any missing prerequisite mutations around it first.
+ * `footprintSlots` bounds where mutations may go and `cropSlots` where their
+ * crops may go; prerequisites get both narrowed so they never take the
+ * footprint above them, and their crops never take its adjacency ring.
+ */
+function placeChainAt(
+  mutationId: string,
+  position: Position,
+  state: OptimizerState,
+  footprintSlots: Set<string>,
+  cropSlots: Set<string>,
+  context: ChainContext
+): string | null {
+  if (!context.placeableMutations.has(mutationId) || context.budget <= 0) return null;
+
+  const geometry = getGeometryCached(mutationId);
+  if (!canFitInGrid(position, geometry, getGridSize(state.grid)) || !canFitInUnlockedSlots(position, geometry, footprintSlots)) return null;
+
+  const footprint = getOccupiedCells(position, geometry);
+  if (footprint.some(cell => isCellOccupied(state, cell))) return null;
+  if (!hasRoomForChain(mutationId, position, state, footprintSlots)) return null;
+
+  const savepoint = createSavepoint(state);
+  const requiredMutations = getRequiredMutations(mutationId);
+  const prerequisiteSlots = withoutCells(footprintSlots, footprint);
+  const prerequisiteCropSlots = withoutCells(cropSlots, [...footprint, ...getAdjacentCells(position, geometry)]);
+
+  if (requiredMutations.size > 0) {
+    const tier = MUTATION_TIERS[mutationId] || 0;
+    const { adjacentMutations } = getAdjacentContents(position, mutationId, state);
+
+    for (const [prerequisiteId, needed] of requiredMutations) {
+      // Prerequisites always sit lower in the tier tree, so recursion ends
+      if ((MUTATION_TIERS[prerequisiteId] || 0) >= tier) {
+        rollbackToSavepoint(state, savepoint);
+        return null;
+      }
+
+      let missing = needed - (adjacentMutations.get(prerequisiteId)?.length || 0);
+      while (missing > 0) {
+        const anchors = getPrerequisiteAnchors(
+          prerequisiteId, position, mutationId, state, prerequisiteSlots, context.random
+        );
+        let placed = false;
+
+        for (const anchor of anchors.slice(0, MAX_PREREQUISITE_ATTEMPTS)) {
+          if (placeChainAt(prerequisiteId, anchor, state, prerequisiteSlots, prerequisiteCropSlots, context)) {
+            placed = true;
+            break;
+          }
+        }
+
+        if (!placed) {
+          rollbackToSavepoint(state, savepoint);
+          return null;
+        }
+        missing--;
+      }
+    }
+  }
+
+  // Nothing counts the crops around a mutation that only needs effects, so
+  // its providers may put their crops in its adjacency ring
+  if (needsAllPositiveEffects(mutationId) &&
+      !placeEffectProviders(mutationId, position, state, prerequisiteSlots, withoutCells(cropSlots, footprint), context)) {
+    rollbackToSavepoint(state, savepoint);
+    return null;
+  }
+
+  context.budget--;
+  const { success, placedId } = placeMutation(mutationId, position, state, footprintSlots);
+  if (!success || !placedId || !placeRequiredCrops(placedId, state, cropSlots)) {
+    rollbackToSavepoint(state, savepoint);
+    return null;
+  }
+
+  return placedId;
+}
+
+/**
+ * Build providers around a mutation that needs every positive effect
+ * (Godseed) until none is missing
+ */
+function placeEffectProviders(
+  mutationId: string,
+  position: Position,
+  state: OptimizerState,
+  footprintSlots: Set<string>,
+  cropSlots: Set<string>,
+  context: ChainContext
+): boolean {
+  const grounds = new Set(getUnlockedPositions(footprintSlots).map(cell => getCellGround(state.ground, cell)));
+  const growable = Array.from(context.placeableMutations).filter(id => hasGroundForChain(id, grounds));
+  let missing = getMissingEffectKinds(mutationId, position, state);
+
+  while (missing.length > 0) {
+    const providers = getEffectProviders(missing, growable, context.random);
+    let placed = false;
+
+    for (const providerId of providers.slice(0, MAX_PROVIDER_CANDIDATES)) {
+      const anchors = getProviderAnchors(providerId, position, mutationId, state, footprintSlots, context.random);
+      for (const anchor of anchors.slice(0, MAX_PREREQUISITE_ATTEMPTS)) {
+        if (placeChainAt(providerId, anchor, state, footprintSlots, cropSlots, context)) {
+          placed = true;
+          break;
+        }
+      }
+      if (placed) break;
+    }
+    if (!placed) return false;
+
+    missing = getMissingEffectKinds(mutationId, position, state);
+  }
+
+  return true;
+}
+
+/**
+ * Place a mutation together with the prerequisite mutations (and their crops)
+ * it needs around it, recursing down the tier tree. Must be called inside a
+ * transaction; if any level fails every change made by the chain is rolled
+ * back and null is returned.
+ */
+export function placeMutationChain(
+  mutationId: string,
+  position: Position,
+  state: OptimizerState,
+  unlockedSlots: Set<string>,
+  placeableMutations: Set<string>,
+  random: RandomSource = Math.random
+): string | null {
+  return placeChainAt(mutationId, position, state, unlockedSlots, unlockedSlots, {
+    placeableMutations,
+    budget: needsAllPositiveEffects(mutationId) ? MAX_EFFECT_CHAIN_PLACEMENTS : MAX_CHAIN_PLACEMENTS,
+    random
+  });
+}
+
+/**
+ * Check that every mutation and crop in a mutation's dependency tree has
+ * some cell to grow on among the given ground types. Chains that fail this
+ * can never be built, so the optimizer doesn't spend moves on them.
+ */
+export function hasGroundForChain(mutationId: string, grounds: Set<GroundType>): boolean {
+  const mutation = getMutationData(mutationId);
+  if (!mutation) return false;
+
+  const groundList = Array.from(grounds);
+  if (!groundList.some(ground => checkGroundCompatibility(mutation.ground, ground))) return false;
+
+  for (const [crop] of getRequiredCrops(mutationId)) {
+    if (!groundList.some(ground => canPlaceCropOnGround(crop, ground))) return false;
+  }
+
+  const tier = MUTATION_TIERS[mutationId] || 0;
+  for (const [prerequisiteId] of getRequiredMutations(mutationId)) {
+    if ((MUTATION_TIERS[prerequisiteId] || 0) >= tier) return false;
+    if (!hasGroundForChain(prerequisiteId, grounds)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Every mutation in a mutation's dependency tree, the mutation included.
+ * Godseed's tree holds every mutation that could provide one of its effects.
+ */
+export function getSupportMutations(mutationId: string): string[] {
+  const support = new Set<string>();
+  const pending = [mutationId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (support.has(id)) continue;
+    support.add(id);
+    for (const [prerequisiteId] of getRequiredMutations(id)) {
+      pending.push(prerequisiteId);
+    }
+    // Effect providers are its support too, along with their own trees
+    if (needsAllPositiveEffects(id)) {
+      const candidates = Object.keys(MUTATIONS_DATA).filter(candidate => !hasSpecialConditions(candidate));
+      pending.push(...getEffectProviders(POSITIVE_EFFECT_KIND_IDS, candidates));
+    }
+  }
+  return Array.from(support);
+}
+
+/**
+ * Cells one copy of a mutation takes together with its whole dependency
+ * tree: its footprint, its crops, and every prerequisite's share in turn
+ */
+function getSupportFootprint(mutationId: string): number {
+  let cells = getGeometryCached(mutationId).footprint.length;
+
+  for (const [, needed] of getRequiredCrops(mutationId)) {
+    cells += needed;
+  }
+  for (const [prerequisiteId, needed] of getRequiredMutations(mutationId)) {
+    cells += needed * getSupportFootprint(prerequisiteId);
+  }
+
+  return cells;
+}
+
+/**
+ * Rough estimate of the copies of a mutation that fit in a number of
+ * unlocked cells, each copy taking its whole dependency tree. Not a bound
+ * either way: copies sharing crops and prerequisites fit more, while
+ * placement rules, ground and Godseed's effect providers often fit fewer.
+ */
+export function estimateCopyCapacity(mutationId: string, unlockedCount: number): number {
+  return Math.floor(unlockedCount / getSupportFootprint(mutationId));
+}
@@ -0,0 +1,319 @@
+import type { OptimizerState, OptimizerConfig, OptimizerResult, OptimizerProgress, OptimizerTick, Position } from '@types';
+import { getMutationData } from '@data/mutationsData';
+import { MUTATION_TIERS } from '@utils/tierUtils';
+import {
+  createEmptyState,
+  deepCloneState,
+  placeMutation,
+  placeRequiredCrops,
+  removeMutation,
+  validateAndCleanState,
+  getUnlockedPositions,
+  beginTransaction,
+  rollbackTransaction,
+  createSavepoint,
+  rollbackToSavepoint
+} from './stateManager';
+import { parseSize } from './geometry';
+import { enumerateCropPlacements } from './cropSolver';
+import { calculateScore, calculateMutationScore, isPerMutationObjective } from './scoring';
+import { getSupportMutations } from './dependencyChain';
+import { filterPlaceableMutations, optimizeLayout } from './annealingEngine';
+import { createSeed } from './random';
+import { assertValidLayout } from './validator';
+import { createTargetTracker, isBelowMax, calculateTargetPenalty, getTargetStatus } from './targets';
+import type { TargetTracker } from './targets';
+
+// Largest plot the exact search is tried on; bigger plots go straight to annealing
+export const EXACT_SOLVER_MAX_SLOTS = 16;
+
+// Search nodes after which the exact search gives up
+const MAX_SEARCH_NODES = 1000000;
+
+// Search nodes between checkpoints, so the search stays responsive to cancellation
+const SEARCH_CHECKPOINT_INTERVAL = 10000;
+
+/**
+ * Everything the search threads through its recursion
+ */
+interface SearchContext {
+  state: OptimizerState;
+  unlockedSlots: Set<string>;
+  cells: Position[];
+  // Placeable mutations grouped by tier, lowest tier first
+  passes: string[][];
+  // Highest score per footprint cell among the mutations of each pass and later ones
+  bestDensity: number[];
+  config: OptimizerConfig;
+  targetTracker: TargetTracker | null;
+  objectiveScore: number;
+  bestScore: number;
+  bestState: OptimizerState;
+  nodes: number;
+  exhausted: boolean;
+  cancelled: boolean;
+}
+
+function getArea(mutationId: string): number {
+  const mutation = getMutationData(mutationId);
+  if (!mutation) return 1;
+  const { width, height } = parseSize(mutation.size);
+  return width * height;
+}
+
+function countFreeCells(context: SearchContext): number {
+  let free = 0;
+  for (const { x, y } of context.cells) {
+    if (context.state.grid[y][x] === null) free++;
+  }
+  return free;
+}
+
+/**
+ * Upper bound on the objective of any layout reachable from the current
+ * node: every free cell filled at the best density still available
+ */
+function getUpperBound(context: SearchContext, pass: number): number {
+  return context.objectiveScore + countFreeCells(context) * context.bestDensity[pass];
+}
+
+/**
+ * Score the current layout and keep it if it beats the best so far
+ */
+function recordLayout(context: SearchContext): void {
+  const score = context.objectiveScore - calculateTargetPenalty(context.targetTracker);
+
+  if (score > context.bestScore) {
+    context.bestScore = score;
+    context.bestState = deepCloneState(context.state);
+    context.bestState.score = score;
+  }
+}
+
+function getSearchProgress(context: SearchContext): OptimizerProgress {
+  return {
+    iteration: context.nodes,
+    maxIterations: MAX_SEARCH_NODES,
+    currentScore: context.bestScore,
+    bestScore: context.bestScore,
+    temperature: 0,
+    placedMutationsCount: context.bestState.placedMutations.size
+  };
+}
+
+/**
+ * Depth-first branch and bound. Each pass walks the unlocked cells once
+ * and decides, per free cell, which mutation of that tier (if any) has
+ * its top-left corner there, and which free ring cells get the crops it
+ * still lacks. Prerequisites always come from earlier passes, so every
+ * node is a layout the placement rules accept.
+ * Yields a tick every SEARCH_CHECKPOINT_INTERVAL nodes; next(true) stops it.
+ */
+function* search(context: SearchContext, pass: number, cellIndex: number): Generator<OptimizerTick, void, boolean | undefined> {
+  if (context.exhausted || context.cancelled) return;
+  if (++context.nodes > MAX_SEARCH_NODES) {
+    context.exhausted = true;
+    return;
+  }
+  if (context.nodes % SEARCH_CHECKPOINT_INTERVAL === 0) {
+    const stop = yield { progress: getSearchProgress(context), bestState: context.bestState };
+    if (stop) {
+      context.cancelled = true;
+      return;
+    }
+  }
+
+  if (cellIndex === context.cells.length) {
+    if (pass + 1 < context.passes.length) {
+      yield* search(context, pass + 1, 0);
+    } else {
+      recordLayout(context);
+    }
+    return;
+  }
+
+  if (getUpperBound(context, pass) <= context.bestScore) return;
+
+  const { state, unlockedSlots, config, targetTracker } = context;
+  const cell = context.cells[cellIndex];
+
+  if (state.grid[cell.y][cell.x] === null) {
+    for (const mutationId of context.passes[pass]) {
+      if (!isBelowMax(targetTracker, mutationId)) continue;
+
+      const savepoint = createSavepoint(state);
+      const { placedId } = placeMutation(mutationId, cell, state, unlockedSlots);
+      if (placedId) {
+        const gain = calculateMutationScore(mutationId, config.objectiveType, config.targetMutationId);
+        context.objectiveScore += gain;
+        targetTracker?.counts.set(mutationId, (targetTracker.counts.get(mutationId) || 0) + 1);
+
+        // Crops are part of the branch, so no arrangement of them is left out
+        for (const cropPlacements of enumerateCropPlacements(mutationId, cell, state, unlockedSlots)) {
+          const cropSavepoint = createSavepoint(state);
+          if (placeRequiredCrops(placedId, state, unlockedSlots, cropPlacements)) {
+            yield* search(context, pass, cellIndex + 1);
+          }
+          rollbackToSavepoint(state, cropSavepoint);
+          if (context.exhausted || context.cancelled) break;
+        }
+
+        targetTracker?.counts.set(mutationId, targetTracker.counts.get(mutationId)! - 1);
+        context.objectiveScore -= gain;
+      }
+      rollbackToSavepoint(state, savepoint);
+      if (context.exhausted || context.cancelled) return;
+    }
+  }
+
+  // Leave the cell to crops or later passes
+  yield* search(context, pass, cellIndex + 1);
+}
+
+/**
+ * Exact search for small plots, as a resumable generator like
+ * annealLayout. Every mutation placement is tried together with every
+ * way to lay out the crops it still lacks, reusing crops already there.
+ * Per-mutation scores don't depend on crops beyond that, so a search that
+ * runs to the end returns the best layout the placement rules can build,
+ * with `optimal: true`. MAX_YIELD scores the crops themselves and isn't
+ * searched.
+ * Pinned placements of an initial state are kept and the rest is searched
+ * afresh, but the initial layout itself stays in the running, so the
+ * result never scores below it.
+ * Returns null when the plot is too large, the config opts out, or nothing
+ * was found. Running out of budget, or calling next(true), ends the search
+ * early with the best layout found so far and no optimality claim.
+ */
+export function* searchLayout(
+  unlockedSlots: Set<string>,
+  availableMutations: string[],
+  config: OptimizerConfig,
+  initialState?: OptimizerState
+): Generator<OptimizerTick, OptimizerResult | null, boolean | undefined> {
+  const { objectiveType, targetMutationId } = config;
+  if (objectiveType === 'TARGET_MUTATION' && !targetMutationId) {
+    throw new Error('TARGET_MUTATION needs a targetMutationId');
+  }
+  if (config.exact === false || unlockedSlots.size > EXACT_SOLVER_MAX_SLOTS) return null;
+  // Yield depends on filler crops no mutation needs, which the search doesn't place
+  if (!isPerMutationObjective(objectiveType)) return null;
+
+  const candidateMutations = objectiveType === 'TARGET_MUTATION'
+    ? getSupportMutations(targetMutationId!).filter(id => availableMutations.includes(id))
+    : availableMutations;
+  const placeableMutations = filterPlaceableMutations(candidateMutations);
+
+  // Start from the pinned placements only
+  const state = initialState ? deepCloneState(initialState) : createEmptyState(config.gridSize, config.ground);
+  for (const [placedId, placed] of Array.from(state.placedMutations)) {
+    if (!placed.pinned && state.placedMutations.has(placedId)) removeMutation(placedId, state);
+  }
+
+  const targetTracker = createTargetTracker(state, config.targets, placeableMutations, objectiveType, targetMutationId);
+
+  // One pass per tier, best-scoring mutations tried first so good layouts tighten the bound early
+  const tiers = Array.from(new Set(placeableMutations.map(id => MUTATION_TIERS[id] || 0))).sort((a, b) => a - b);
+  const passes = tiers.map(tier => placeableMutations
+    .filter(id => (MUTATION_TIERS[id] || 0) === tier)
+    .sort((a, b) =>
+      calculateMutationScore(b, objectiveType, targetMutationId) - calculateMutationScore(a, objectiveType, targetMutationId)
+    )
+  );
+  if (passes.length === 0) passes.push([]);
+
+  const bestDensity = passes.map(() => 0);
+  for (let pass = passes.length - 1; pass >= 0; pass--) {
+    let density = pass + 1 < passes.length ? bestDensity[pass + 1] : 0;
+    for (const mutationId of passes[pass]) {
+      const score = calculateMutationScore(mutationId, objectiveType, targetMutationId);
+      density = Math.max(density, score / getArea(mutationId));
+    }
+    bestDensity[pass] = density;
+  }
+
+  let objectiveScore = 0;
+  for (const [, placed] of state.placedMutations) {
+    objectiveScore += calculateMutationScore(placed.mutationId, objectiveType, targetMutationId);
+  }
+
+  // The initial layout is the incumbent to beat, so a warm start is never lost
+  let incumbent = state;
+  let incumbentScore = -Infinity;
+  if (initialState) {
+    incumbent = deepCloneState(initialState);
+    validateAndCleanState(incumbent);
+    const incumbentTracker = createTargetTracker(incumbent, config.targets, placeableMutations, objectiveType, targetMutationId);
+    incumbentScore = calculateScore(incumbent, objectiveType, targetMutationId) - calculateTargetPenalty(incumbentTracker);
+    incumbent.score = incumbentScore;
+  }
+
+  const context: SearchContext = {
+    state,
+    unlockedSlots,
+    cells: getUnlockedPositions(unlockedSlots),
+    passes,
+    bestDensity,
+    config,
+    targetTracker,
+    objectiveScore,
+    bestScore: incumbentScore,
+    bestState: incumbent,
+    nodes: 0,
+    exhausted: false,
+    cancelled: false
+  };
+
+  beginTransaction(state);
+  yield* search(context, 0, 0);
+  rollbackTransaction(state);
+
+  if (context.bestScore === -Infinity) return null;
+
+  const bestState = context.bestState;
+  if (config.debug) assertValidLayout(bestState, unlockedSlots, 'The exact search');
+  return {
+    state: bestState,
+    iterations: context.nodes,
+    finalScore: context.bestScore,
+    bestScore: context.bestScore,
+    history: [],
+    seed: config.seed ?? createSeed(),
+    targets: config.targets && getTargetStatus(bestState, config.targets),
+    optimal: !context.exhausted && !context.cancelled
+  };
+}
+
+/**
+ * Run the exact search to completion
+ */
+export function solveExact(
+  unlockedSlots: Set<string>,
+  availableMutations: string[],
+  config: OptimizerConfig,
+  initialState?: OptimizerState
+): OptimizerResult | null {
+  const run = searchLayout(unlockedSlots, availableMutations, config, initialState);
+
+  let step = run.next();
+  while (!step.done) step = run.next();
+
+  return step.value;
+}
+
+/**
+ * Same contract as optimizeLayout, but small plots are solved exactly
+ * first. A search that runs out of budget hands annealing its best
+ * layout to continue from; larger plots go straight to annealing.
+ */
+export function solveLayout(
+  unlockedSlots: Set<string>,
+  availableMutations: string[],
+  config: OptimizerConfig,
+  onProgress?: (progress: OptimizerProgress) => void,
+  initialState?: OptimizerState
+): OptimizerResult {
+  const searched = solveExact(unlockedSlots, availableMutations, config, initialState);
+  if (searched?.optimal) return searched;
+  return optimizeLayout(unlockedSlots, availableMutations, config, onProgress, searched?.state ?? initialState);
+}
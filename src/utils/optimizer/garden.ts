@@ -0,0 +1,118 @@
+import type {
+  GardenPlot,
+  GardenResult,
+  MutationTargets,
+  OptimizerConfig,
+  OptimizerProgress,
+  OptimizerResult,
+  OptimizerState
+} from '@types';
+import { solveLayout } from './exactSolver';
+import { calculateScore } from './scoring';
+import { countMutations, resolveTargets, getCountTargetStatus } from './targets';
+
+/**
+ * Gardens made of several plots. Crops can't reach across a plot border,
+ * so each plot is its own layout problem; plots are optimized in order and
+ * a garden-wide target is handed along, each plot being asked for what the
+ * plots before it didn't place.
+ */
+
+/**
+ * Placed mutations by mutation id, summed over several layouts
+ */
+export function countGardenMutations(states: OptimizerState[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const state of states) {
+    for (const [mutationId, count] of countMutations(state)) {
+      counts.set(mutationId, (counts.get(mutationId) || 0) + count);
+    }
+  }
+  return counts;
+}
+
+/**
+ * What is left of each target once some copies have been placed elsewhere
+ */
+export function getRemainingTargets(targets: MutationTargets, placed: Map<string, number>): MutationTargets {
+  const remaining: MutationTargets = {};
+  for (const [mutationId, { min, max }] of resolveTargets(targets)) {
+    const count = placed.get(mutationId) || 0;
+    remaining[mutationId] = Number.isFinite(max)
+      ? { min: Math.max(0, min - count), max: Math.max(0, max - count) }
+      : { min: Math.max(0, min - count) };
+  }
+  return remaining;
+}
+
+/**
+ * Config for one plot's run: the plot's own size and ground, the targets
+ * the earlier plots left over, and a seed of its own
+ */
+export function getPlotConfig(
+  plot: GardenPlot,
+  config: OptimizerConfig,
+  placed: Map<string, number>,
+  plotIndex: number
+): OptimizerConfig {
+  return {
+    ...config,
+    gridSize: plot.gridSize,
+    ground: plot.ground,
+    targets: config.targets && getRemainingTargets(config.targets, placed),
+    seed: config.seed === undefined ? undefined : (config.seed + plotIndex) >>> 0
+  };
+}
+
+/**
+ * Combined score, per-plot breakdown and garden-wide target counts for the
+ * results of a garden's plots, given in plot order
+ */
+export function summarizeGarden(
+  plots: GardenPlot[],
+  results: OptimizerResult[],
+  config: OptimizerConfig
+): GardenResult {
+  const plotResults = plots.map((plot, i) => ({
+    plotId: plot.id,
+    name: plot.name,
+    result: results[i],
+    score: calculateScore(results[i].state, config.objectiveType, config.targetMutationId),
+    mutationCount: results[i].state.placedMutations.size
+  }));
+
+  const hasTargets = config.targets && Object.keys(config.targets).length > 0;
+  return {
+    plots: plotResults,
+    totalScore: plotResults.reduce((total, plot) => total + plot.score, 0),
+    targets: hasTargets
+      ? getCountTargetStatus(countGardenMutations(results.map(result => result.state)), config.targets!)
+      : undefined
+  };
+}
+
+/**
+ * Optimize every plot of a garden, sharing the config's targets between
+ * them. Progress is reported with the index of the plot being optimized.
+ */
+export function optimizeGarden(
+  plots: GardenPlot[],
+  availableMutations: string[],
+  config: OptimizerConfig,
+  onProgress?: (plotIndex: number, progress: OptimizerProgress) => void
+): GardenResult {
+  const results: OptimizerResult[] = [];
+
+  plots.forEach((plot, plotIndex) => {
+    const placed = countGardenMutations(results.map(result => result.state));
+    results.push(solveLayout(
+      plot.unlockedSlots,
+      availableMutations,
+      getPlotConfig(plot, config, placed, plotIndex),
+      progress => onProgress?.(plotIndex, progress),
+      plot.initialState
+    ));
+  });
+
+  return summarizeGarden(plots, results, config);
+}
@@ -1,4 +1,4 @@
-import type { Position, FootprintOffset, MutationGeometry, GroundType } from '@types';
+import type { Position, FootprintOffset, MutationGeometry, GridSize, GroundType, GroundMap } from '@types';
 import { getMutationData, MUTATIONS_DATA } from '@data/mutationsData';
 import { CROP_GROUND_REQUIREMENTS } from '@data/constants';
 
@@ -117,17 +117,24 @@ export function getAdjacentCells(position: Position, geometry: MutationGeometry)
   }));
 }
 
+/**
+ * Dimensions of a grid indexed [y][x]
+ */
+export function getGridSize(grid: readonly (readonly unknown[])[]): GridSize {
+  return { width: grid[0]?.length ?? 0, height: grid.length };
+}
+
 /**
  * Check if a position is within grid bounds
  */
-export function isInBounds(position: Position, gridSize: number = 10): boolean {
-  return position.x >= 0 && position.x < gridSize && position.y >= 0 && position.y < gridSize;
+export function isInBounds(position: Position, gridSize: GridSize): boolean {
+  return position.x >= 0 && position.x < gridSize.width && position.y >= 0 && position.y < gridSize.height;
 }
 
 /**
  * Check if all footprint cells are within bounds
  */
-export function canFitInGrid(position: Position, geometry: MutationGeometry, gridSize: number = 10): boolean {
+export function canFitInGrid(position: Position, geometry: MutationGeometry, gridSize: GridSize): boolean {
   return getOccupiedCells(position, geometry).every(cell => isInBounds(cell, gridSize));
 }
 
@@ -165,6 +172,35 @@ export function canPlaceCropOnGround(crop: string, groundType: GroundType): bool
   return cropGround === groundType;
 }
 
+/**
+ * Ground block assumed for cells missing from a ground map
+ */
+export const DEFAULT_GROUND: GroundType = 'farmland';
+
+/**
+ * Get the ground block under a cell
+ */
+export function getCellGround(ground: GroundMap, position: Position): GroundType {
+  return ground[`${position.y},${position.x}`] ?? DEFAULT_GROUND;
+}
+
+/**
+ * Check if every footprint cell of a mutation sits on its required ground
+ */
+export function canFitOnGround(
+  mutationId: string,
+  position: Position,
+  geometry: MutationGeometry,
+  ground: GroundMap
+): boolean {
+  const mutation = getMutationData(mutationId);
+  if (!mutation) return false;
+
+  return getOccupiedCells(position, geometry).every(cell =>
+    checkGroundCompatibility(mutation.ground, getCellGround(ground, cell))
+  );
+}
+
 /**
  * Get mutations grouped by size for efficient swap operations
  */
@@ -7,11 +7,15 @@ export {
   getGeometryCached,
   getOccupiedCells,
   getAdjacentCells,
+  getGridSize,
   isInBounds,
   canFitInGrid,
   canFitInUnlockedSlots,
   checkGroundCompatibility,
   canPlaceCropOnGround,
+  getCellGround,
+  canFitOnGround,
+  DEFAULT_GROUND,
   getMutationsBySize,
   MUTATIONS_BY_SIZE
 } from './geometry';
@@ -22,15 +26,30 @@ export {
   getAdjacentContents,
   canSatisfyConditions,
   areConditionsSatisfied,
+  getRequirementStatus,
   getRequiredCrops,
   getRequiredMutations,
   needsIsolation,
   hasSpecialConditions,
+  needsAllPositiveEffects,
+  getMissingEffectKinds,
+  ALL_POSITIVE_EFFECTS_CONDITION,
   findCropPlacements,
+  enumerateCropPlacements,
+  findCropSharers,
   wouldViolateIsolation,
   findInvalidMutations
 } from './cropSolver';
 
+// Layout validation
+export { validateLayout, validateDesignGrid, createDesignGridState, assertValidLayout } from './validator';
+
+// Special-condition recipes
+export { getRecipe, getRecipeConditions, describeRecipeStep } from './recipes';
+
+// Build order planning
+export { planBuildOrder, formatBuildPlan } from './buildOrder';
+
 // State management
 export {
   createEmptyState,
@@ -43,26 +62,126 @@ export {
   placeCrop,
   placeRequiredCrops,
   validateAndCleanState,
+  createStateFromDesignGrid,
   getMutationCount,
   getCropCount,
   getPlacedMutationIds,
   getRandomPlacedMutation,
   getEmptyUnlockedCells,
-  shuffleArray
+  getUnlockedPositions,
+  shuffleArray,
+  beginTransaction,
+  commitTransaction,
+  rollbackTransaction,
+  createSavepoint,
+  rollbackToSavepoint,
+  getTransactionMutationChanges
 } from './stateManager';
 
+// Dependency chains
+export {
+  placeMutationChain,
+  hasGroundForChain,
+  hasRoomForChain,
+  getSupportMutations,
+  getEffectProviders,
+  hasEffectProviders,
+  estimateCopyCapacity
+} from './dependencyChain';
+
 // Scoring functions
 export {
   calculateMutationsScore,
   calculateProfitScore,
+  calculateYieldScore,
+  calculateTargetMutationScore,
   calculateScore,
+  calculateMutationScore,
+  calculateScoreDelta,
+  isPerMutationObjective,
   getScoreBreakdown
 } from './scoring';
 
 // Annealing engine
 export {
   optimizeLayout,
+  annealLayout,
   DEFAULT_CONFIG,
   QUICK_CONFIG,
   THOROUGH_CONFIG
 } from './annealingEngine';
+
+// Exact solver for small plots
+export {
+  searchLayout,
+  solveExact,
+  solveLayout,
+  EXACT_SOLVER_MAX_SLOTS
+} from './exactSolver';
+
+// Temperature schedules
+export {
+  calibrateStartTemperature,
+  createTemperatureSchedule,
+  recordAcceptance,
+  advanceSchedule,
+  getAdaptiveOptions,
+  DEFAULT_ADAPTIVE_OPTIONS,
+  CALIBRATION_SAMPLES
+} from './temperatureSchedule';
+export type { TemperatureSchedule } from './temperatureSchedule';
+
+// Parallel tempering
+export {
+  createTemperatureLadder,
+  createReplicas,
+  exchangeProbability,
+  exchangeReplicas,
+  EXCHANGE_INTERVAL
+} from './replicaExchange';
+export type { Replica } from './replicaExchange';
+
+// Worker boundary serialization
+export {
+  serializeState,
+  deserializeState,
+  serializeResult,
+  deserializeResult
+} from './serialization';
+
+// Occupancy index
+export {
+  createOccupancyIndex,
+  cloneOccupancyIndex,
+  buildOccupancyIndex,
+  getMutationAt,
+  getCropAt,
+  getCropsForMutation
+} from './occupancyIndex';
+
+// Seeded randomness
+export { createRandom, createSeed, randomInt } from './random';
+export type { RandomSource } from './random';
+
+// Mutation count targets
+export {
+  resolveTargets,
+  countMutations,
+  createTargetTracker,
+  isBelowMax,
+  calculateTargetPenalty,
+  evaluateTargetChanges,
+  commitTargetChanges,
+  getTargetStatus,
+  getCountTargetStatus
+} from './targets';
+export type { TargetTracker } from './targets';
+
+// Multi-plot gardens
+export {
+  countGardenMutations,
+  getRemainingTargets,
+  getPlotConfig,
+  summarizeGarden,
+  optimizeGarden
+} from './garden';
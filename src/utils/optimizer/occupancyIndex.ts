@@ -0,0 +1,129 @@
+import type {
+  Position,
+  OccupancyIndex,
+  OptimizerState,
+  OptimizerPlacedMutation,
+  OptimizerPlacedCrop
+} from '@types';
+import { getOccupiedCells } from './geometry';
+
+const NO_CROPS: ReadonlySet<string> = new Set();
+
+/**
+ * Create an empty index for a grid of the given dimensions
+ */
+export function createOccupancyIndex(width: number, height: number): OccupancyIndex {
+  return {
+    width,
+    height,
+    mutationAt: new Array(width * height).fill(null),
+    cropAt: new Array(width * height).fill(null),
+    cropsByMutation: new Map()
+  };
+}
+
+/**
+ * Copy an index so it can be changed independently
+ */
+export function cloneOccupancyIndex(index: OccupancyIndex): OccupancyIndex {
+  return {
+    width: index.width,
+    height: index.height,
+    mutationAt: [...index.mutationAt],
+    cropAt: [...index.cropAt],
+    cropsByMutation: new Map(
+      Array.from(index.cropsByMutation.entries()).map(([id, crops]) => [id, new Set(crops)])
+    )
+  };
+}
+
+/**
+ * Build an index from scratch for a state's placements
+ */
+export function buildOccupancyIndex(
+  grid: (string | null)[][],
+  placedMutations: Map<string, OptimizerPlacedMutation>,
+  placedCrops: Map<string, OptimizerPlacedCrop>
+): OccupancyIndex {
+  const index = createOccupancyIndex(grid[0]?.length ?? 0, grid.length);
+  for (const mutation of placedMutations.values()) {
+    indexMutation(index, mutation, true);
+  }
+  for (const crop of placedCrops.values()) {
+    indexCrop(index, crop, true);
+  }
+  return index;
+}
+
+function cellIndex(index: OccupancyIndex, position: Position): number {
+  if (position.x < 0 || position.x >= index.width || position.y < 0 || position.y >= index.height) {
+    return -1;
+  }
+  return position.y * index.width + position.x;
+}
+
+/**
+ * Add or remove a placed mutation's footprint
+ */
+export function indexMutation(index: OccupancyIndex, mutation: OptimizerPlacedMutation, placed: boolean): void {
+  for (const cell of getOccupiedCells(mutation.position, mutation.geometry)) {
+    const i = cellIndex(index, cell);
+    if (i < 0) continue;
+    if (placed) {
+      index.mutationAt[i] = mutation.id;
+    } else if (index.mutationAt[i] === mutation.id) {
+      index.mutationAt[i] = null;
+    }
+  }
+}
+
+/**
+ * Add or remove a placed crop and its links to the mutations it serves
+ */
+export function indexCrop(index: OccupancyIndex, crop: OptimizerPlacedCrop, placed: boolean): void {
+  const i = cellIndex(index, crop.position);
+  if (i >= 0) {
+    if (placed) {
+      index.cropAt[i] = crop.id;
+    } else if (index.cropAt[i] === crop.id) {
+      index.cropAt[i] = null;
+    }
+  }
+
+  for (const mutationId of crop.forMutations) {
+    let crops = index.cropsByMutation.get(mutationId);
+    if (placed) {
+      if (!crops) {
+        crops = new Set();
+        index.cropsByMutation.set(mutationId, crops);
+      }
+      crops.add(crop.id);
+    } else if (crops) {
+      crops.delete(crop.id);
+      if (crops.size === 0) index.cropsByMutation.delete(mutationId);
+    }
+  }
+}
+
+/**
+ * Placed mutation id covering a cell, or null
+ */
+export function getMutationAt(state: OptimizerState, position: Position): string | null {
+  const i = cellIndex(state.index, position);
+  return i < 0 ? null : state.index.mutationAt[i];
+}
+
+/**
+ * Placed crop id on a cell, or null
+ */
+export function getCropAt(state: OptimizerState, position: Position): string | null {
+  const i = cellIndex(state.index, position);
+  return i < 0 ? null : state.index.cropAt[i];
+}
+
+/**
+ * Ids of the crops that serve a placed mutation
+ */
+export function getCropsForMutation(state: OptimizerState, placedId: string): ReadonlySet<string> {
+  return state.index.cropsByMutation.get(placedId) ?? NO_CROPS;
+}
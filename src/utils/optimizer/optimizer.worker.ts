@@ -0,0 +1,121 @@
+import type { OptimizerTick, OptimizerWorkerRequest, OptimizerWorkerResponse } from '@types';
+import { annealLayout } from './annealingEngine';
+import { searchLayout } from './exactSolver';
+import { serializeResult, serializeState, deserializeState } from './serialization';
+import { createSeed } from './random';
+
+/**
+ * Dedicated worker running the optimizer off the main thread. Small plots
+ * are first solved exactly; when the search can't finish, the annealing
+ * engine continues from the best layout it found.
+ *
+ * Protocol:
+ *   start    -> progress* / best* -> done (or error)
+ *   cancel   -> the running loop stops at its next checkpoint and
+ *               reports the best state found so far as `done`
+ */
+
+// Runs that have been asked to stop; a new start also stops the previous run
+const cancelledRuns = new Set<number>();
+let activeRunId: number | null = null;
+
+function post(message: OptimizerWorkerResponse): void {
+  self.postMessage(message);
+}
+
+/**
+ * Let queued messages (e.g. cancel) be handled between checkpoints
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+async function run(request: Extract<OptimizerWorkerRequest, { type: 'start' }>): Promise<void> {
+  const { runId, unlockedSlots, availableMutations, config, initialState } = request;
+  if (activeRunId !== null) cancelledRuns.add(activeRunId);
+  activeRunId = runId;
+
+  // Fix the seed up front so intermediate results can report it too
+  const seed = config.seed ?? createSeed();
+  const unlocked = new Set(unlockedSlots);
+  const initial = initialState && deserializeState(initialState);
+
+  let lastPostedBest = -Infinity;
+  const postBest = (tick: OptimizerTick) => {
+    const { progress, bestState } = tick;
+    if (progress.bestScore <= lastPostedBest) return;
+    lastPostedBest = progress.bestScore;
+    post({
+      type: 'best',
+      runId,
+      result: {
+        state: serializeState(bestState),
+        iterations: progress.iteration,
+        finalScore: progress.currentScore,
+        bestScore: progress.bestScore,
+        history: [],
+        seed
+      }
+    });
+  };
+
+  // Only its best layouts are reported, as its node count isn't the run's progress
+  const search = searchLayout(unlocked, availableMutations, { ...config, seed }, initial);
+  let searchStep = search.next();
+  while (!searchStep.done) {
+    postBest(searchStep.value);
+    await yieldToEventLoop();
+    searchStep = search.next(cancelledRuns.has(runId));
+  }
+
+  const searched = searchStep.value;
+  if (searched?.optimal) {
+    post({ type: 'done', runId, result: serializeResult(searched), cancelled: false });
+    cancelledRuns.delete(runId);
+    if (activeRunId === runId) activeRunId = null;
+    return;
+  }
+
+  // A cancelled run still anneals up to its first checkpoint, which keeps the best layout
+  const steps = annealLayout(
+    unlocked,
+    availableMutations,
+    { ...config, seed },
+    searched?.state ?? initial
+  );
+
+  let step = steps.next();
+  while (!step.done) {
+    post({ type: 'progress', runId, progress: step.value.progress });
+    postBest(step.value);
+
+    await yieldToEventLoop();
+    step = steps.next(cancelledRuns.has(runId));
+  }
+
+  post({ type: 'done', runId, result: serializeResult(step.value), cancelled: cancelledRuns.has(runId) });
+  cancelledRuns.delete(runId);
+  if (activeRunId === runId) activeRunId = null;
+}
+
+self.onmessage = (event: MessageEvent<OptimizerWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start':
+      run(request).catch((error: unknown) => {
+        cancelledRuns.delete(request.runId);
+        if (activeRunId === request.runId) activeRunId = null;
+        post({
+          type: 'error',
+          runId: request.runId,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      });
+      break;
+    case 'cancel':
+      // Earlier runs were already stopped when the active one started
+      if (request.runId === activeRunId) cancelledRuns.add(request.runId);
+      break;
+  }
+};
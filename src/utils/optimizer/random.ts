@@ -0,0 +1,33 @@
+/**
+ * Source of uniformly distributed numbers in [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Pick a fresh 32-bit seed for runs that don't ask for one
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Create a seeded PRNG (mulberry32). The same seed always yields the same
+ * sequence, which makes optimizer runs reproducible.
+ */
+export function createRandom(seed: number): RandomSource {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Random integer in [0, max)
+ */
+export function randomInt(random: RandomSource, max: number): number {
+  return Math.floor(random() * max);
+}
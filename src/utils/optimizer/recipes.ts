@@ -0,0 +1,64 @@
+import type { MutationConditions, RecipeStep, SpecialRecipe } from '@types';
+import { getMutationData, MUTATIONS_DATA } from '@data/mutationsData';
+import { SPECIAL_RECIPES } from '@data/constants';
+
+/**
+ * Special conditions modelled as recipes. A recipe product takes the place
+ * of the mutation it grows from, so the optimizer reserves that mutation's
+ * support around it as the recipe's intermediate layout. The steps after it
+ * happen on cells of that layout once the mutation has grown.
+ */
+
+const recipeConditionsCache = new Map<string, MutationConditions | null>();
+
+/**
+ * Recipe behind a mutation's special condition, if it has one
+ */
+export function getRecipe(mutationId: string): SpecialRecipe | null {
+  const special = getMutationData(mutationId)?.conditions.special;
+  return special ? SPECIAL_RECIPES[special] ?? null : null;
+}
+
+/**
+ * Requirements a recipe's intermediate layout puts around the product: the
+ * requirements of the mutation it grows from. Mutations that only have to
+ * sit next to it when the recipe is set off go in one of those cells after
+ * that mutation has grown, so they aren't kept. Null when the condition has
+ * no recipe or the recipe needs an item from outside the garden, which the
+ * optimizer can't provide.
+ */
+export function getRecipeConditions(special: string): MutationConditions | null {
+  if (recipeConditionsCache.has(special)) return recipeConditionsCache.get(special)!;
+
+  const recipe = SPECIAL_RECIPES[special];
+  let conditions: MutationConditions | null = null;
+
+  if (recipe && recipe.steps.every(step => step.type !== 'item')) {
+    conditions = {};
+    for (const step of recipe.steps) {
+      if (step.type !== 'mutation' || step.placement !== 'product') continue;
+      for (const [key, value] of Object.entries(getMutationData(step.mutationId)?.conditions ?? {})) {
+        conditions[key] = typeof value === 'number' ? ((conditions[key] as number | undefined) ?? 0) + value : value;
+      }
+    }
+  }
+
+  recipeConditionsCache.set(special, conditions);
+  return conditions;
+}
+
+/**
+ * Short instruction for one recipe step
+ */
+export function describeRecipeStep(step: RecipeStep): string {
+  switch (step.type) {
+    case 'mutation': {
+      const name = MUTATIONS_DATA[step.mutationId]?.name ?? step.mutationId;
+      return step.placement === 'product' ? `Grow a ${name} where the product should go` : `Grow a ${name} next to it`;
+    }
+    case 'item':
+      return `Plant a ${step.name}`;
+    case 'action':
+      return step.description;
+  }
+}
@@ -0,0 +1,69 @@
+import type { OptimizerState } from '@types';
+import type { RandomSource } from './random';
+
+/**
+ * Parallel tempering: several annealing replicas run side by side, each
+ * at its own fixed temperature, and neighbouring replicas periodically
+ * trade layouts. Good layouts sink to the cold replicas to be refined
+ * while the hot ones keep exploring.
+ */
+
+// Annealing iterations each replica runs between exchanges
+export const EXCHANGE_INTERVAL = 1000;
+
+// Coldest replica's temperature as a fraction of the hottest one's
+const MIN_TEMPERATURE_RATIO = 0.0001;
+
+export interface Replica {
+  temperature: number;
+  // Layout the replica is currently at (not its best), undefined before the first round
+  state?: OptimizerState;
+  score: number;
+}
+
+/**
+ * Geometric temperature ladder from hottest to coldest
+ */
+export function createTemperatureLadder(count: number, maxTemperature: number): number[] {
+  if (count <= 1) return [maxTemperature];
+  const ratio = Math.pow(MIN_TEMPERATURE_RATIO, 1 / (count - 1));
+  return Array.from({ length: count }, (_, i) => maxTemperature * Math.pow(ratio, i));
+}
+
+/**
+ * One replica per temperature, with no layout yet
+ */
+export function createReplicas(count: number, maxTemperature: number): Replica[] {
+  return createTemperatureLadder(count, maxTemperature).map(temperature => ({ temperature, score: -Infinity }));
+}
+
+/**
+ * Metropolis criterion for trading layouts between two replicas, for a
+ * maximized score: always accept when the hotter replica holds the better
+ * layout, otherwise with probability exp((1/Ta - 1/Tb) * (Sb - Sa))
+ */
+export function exchangeProbability(a: Replica, b: Replica): number {
+  const exponent = (1 / a.temperature - 1 / b.temperature) * (b.score - a.score);
+  return exponent >= 0 ? 1 : Math.exp(exponent);
+}
+
+/**
+ * Try to swap layouts between neighbouring replicas. Rounds alternate
+ * between even and odd pairs so every neighbour pair gets a turn.
+ * Returns the number of swaps made.
+ */
+export function exchangeReplicas(replicas: Replica[], round: number, random: RandomSource): number {
+  let swaps = 0;
+  for (let i = round % 2; i + 1 < replicas.length; i += 2) {
+    const a = replicas[i];
+    const b = replicas[i + 1];
+    if (!a.state || !b.state) continue;
+
+    if (random() < exchangeProbability(a, b)) {
+      [a.state, b.state] = [b.state, a.state];
+      [a.score, b.score] = [b.score, a.score];
+      swaps++;
+    }
+  }
+  return swaps;
+}
@@ -1,51 +1,114 @@
-import type { OptimizerState, ObjectiveType } from '@types';
+import type { OptimizerState, OptimizerPlacedMutation, ObjectiveType } from '@types';
 import { getMutationData } from '@data/mutationsData';
+import { BASE_CROPS } from '@data/constants';
 import { MUTATION_TIERS } from '@utils/tierUtils';
 import { parseSize } from './geometry';
+import { getRequiredCrops } from './cropSolver';
+import { getStateEffectSources, resolveEffectSources, calculateCellEffects, getEffectWeight } from '@utils/effects';
+
+// Only real crops are harvested; extra conditions like fire are not
+const HARVESTABLE_CROPS = new Set<string>(BASE_CROPS);
 
 /**
- * Effect weights for profit calculation
+ * MAX_MUTATIONS contribution of a single mutation
+ * Formula: 1 + tier * 0.25 + area * 0.1
  */
-const EFFECT_WEIGHTS: Record<string, number> = {
-  // Positive effects
-  'improved_harvest_boost': 100,
-  'harvest_boost': 60,
-  'improved_water_retain': 40,
-  'water_retain': 25,
-  'improved_xp_boost': 35,
-  'xp_boost': 20,
-  'immunity': 80,
-  'bonus_drops': 70,
-  'improved_effect_spread': 50,
-  'effect_spread': 30,
-
-  // Negative effects (penalties)
-  'harvest_loss': -40,
-  'water_drain': -30,
-  'xp_loss': -20
-};
+function mutationsScoreOf(mutationId: string): number {
+  const mutation = getMutationData(mutationId);
+  if (!mutation) return 0;
+
+  const tier = MUTATION_TIERS[mutationId] || 0;
+  const { width, height } = parseSize(mutation.size);
+  const area = width * height;
+
+  // Base score: 1 per mutation
+  // Tier bonus: higher tier mutations are more valuable
+  // Area penalty: larger mutations take more space, so slightly lower per-cell value
+  return 1 + (tier * 0.25) + (area * 0.1);
+}
 
 /**
- * Calculate score for MAX_MUTATIONS objective
- * Formula: Σ (1 + tier * 0.25 + area * 0.1)
+ * MAX_PROFIT contribution of a single mutation
+ * Formula: baseDrops + effectBonuses - penalties
  */
-export function calculateMutationsScore(state: OptimizerState): number {
+function profitScoreOf(mutationId: string): number {
+  const mutation = getMutationData(mutationId);
+  if (!mutation) return 0;
+
   let score = 0;
 
-  for (const [, placedMutation] of state.placedMutations) {
-    const mutation = getMutationData(placedMutation.mutationId);
-    if (!mutation) continue;
+  // Add drop values
+  if (mutation.drops) {
+    for (const [, amount] of Object.entries(mutation.drops)) {
+      score += amount * 0.01; // Scale down raw drop amounts
+    }
+  }
 
-    const tier = MUTATION_TIERS[placedMutation.mutationId] || 0;
-    const { width, height } = parseSize(mutation.size);
-    const area = width * height;
+  // Add effect bonuses/penalties
+  for (const effect of mutation.effects) {
+    score += getEffectWeight(effect);
+  }
 
-    // Base score: 1 per mutation
-    // Tier bonus: higher tier mutations are more valuable
-    // Area penalty: larger mutations take more space, so slightly lower per-cell value
-    score += 1 + (tier * 0.25) + (area * 0.1);
+  // Tier bonus for profit (higher tier = more valuable in-game)
+  const tier = MUTATION_TIERS[mutationId] || 0;
+  score += tier * 10;
+
+  return score;
+}
+
+/**
+ * MAX_YIELD has no per-mutation score, since a mutation's value depends on
+ * its neighbours. As an estimate, count the harvestable crops it brings
+ * in at the base multiplier.
+ */
+function yieldScoreOf(mutationId: string): number {
+  let crops = 0;
+  for (const [cropType, needed] of getRequiredCrops(mutationId)) {
+    if (HARVESTABLE_CROPS.has(cropType)) crops += needed;
   }
+  return crops;
+}
+
+/**
+ * Whether an objective's score is a sum over placed mutations, which is
+ * what makes incremental scoring possible
+ */
+export function isPerMutationObjective(objectiveType: ObjectiveType): boolean {
+  return objectiveType !== 'MAX_YIELD';
+}
+
+/**
+ * Score contribution of one placed mutation under an objective; an
+ * estimate for objectives that aren't per-mutation. TARGET_MUTATION
+ * scores only copies of targetMutationId; support scores nothing.
+ */
+export function calculateMutationScore(
+  mutationId: string,
+  objectiveType: ObjectiveType,
+  targetMutationId?: string
+): number {
+  switch (objectiveType) {
+    case 'MAX_PROFIT':
+      return profitScoreOf(mutationId);
+    case 'MAX_YIELD':
+      return yieldScoreOf(mutationId);
+    case 'TARGET_MUTATION':
+      return mutationId === targetMutationId ? 1 : 0;
+    case 'MAX_MUTATIONS':
+    default:
+      return mutationsScoreOf(mutationId);
+  }
+}
 
+/**
+ * Calculate score for MAX_MUTATIONS objective
+ * Formula: Σ (1 + tier * 0.25 + area * 0.1)
+ */
+export function calculateMutationsScore(state: OptimizerState): number {
+  let score = 0;
+  for (const [, placedMutation] of state.placedMutations) {
+    score += mutationsScoreOf(placedMutation.mutationId);
+  }
   return score;
 }
 
@@ -55,46 +118,88 @@ export function calculateMutationsScore(state: OptimizerState): number {
  */
 export function calculateProfitScore(state: OptimizerState): number {
   let score = 0;
-
   for (const [, placedMutation] of state.placedMutations) {
-    const mutation = getMutationData(placedMutation.mutationId);
-    if (!mutation) continue;
-
-    // Add drop values
-    if (mutation.drops) {
-      for (const [, amount] of Object.entries(mutation.drops)) {
-        score += amount * 0.01; // Scale down raw drop amounts
-      }
-    }
-
-    // Add effect bonuses/penalties
-    for (const effect of mutation.effects) {
-      const weight = EFFECT_WEIGHTS[effect] || 0;
-      score += weight;
-    }
+    score += profitScoreOf(placedMutation.mutationId);
+  }
+  return score;
+}
 
-    // Tier bonus for profit (higher tier = more valuable in-game)
-    const tier = MUTATION_TIERS[placedMutation.mutationId] || 0;
-    score += tier * 10;
+/**
+ * Calculate score for MAX_YIELD objective
+ * Formula: Σ harvest multiplier of each harvestable crop, using the same
+ * effect propagation as the designer overlay
+ */
+export function calculateYieldScore(state: OptimizerState): number {
+  const sources = resolveEffectSources(getStateEffectSources(state));
+  let score = 0;
+  for (const [, placedCrop] of state.placedCrops) {
+    if (!HARVESTABLE_CROPS.has(placedCrop.crop)) continue;
+    score += calculateCellEffects(placedCrop.position, sources).harvest;
   }
+  return score;
+}
 
+/**
+ * Calculate score for TARGET_MUTATION objective
+ * Formula: number of placed copies of the target. Placed mutations are
+ * always satisfied, so every copy counts as growing.
+ */
+export function calculateTargetMutationScore(state: OptimizerState, targetMutationId: string | undefined): number {
+  let score = 0;
+  for (const [, placedMutation] of state.placedMutations) {
+    if (placedMutation.mutationId === targetMutationId) score++;
+  }
   return score;
 }
 
 /**
  * Calculate score based on objective type
  */
-export function calculateScore(state: OptimizerState, objectiveType: ObjectiveType): number {
+export function calculateScore(
+  state: OptimizerState,
+  objectiveType: ObjectiveType,
+  targetMutationId?: string
+): number {
   switch (objectiveType) {
     case 'MAX_MUTATIONS':
       return calculateMutationsScore(state);
     case 'MAX_PROFIT':
       return calculateProfitScore(state);
+    case 'MAX_YIELD':
+      return calculateYieldScore(state);
+    case 'TARGET_MUTATION':
+      return calculateTargetMutationScore(state, targetMutationId);
     default:
       return calculateMutationsScore(state);
   }
 }
 
+/**
+ * Score change caused by a set of mutation changes, given each touched
+ * placed mutation's value before the change (undefined if newly placed).
+ * Objectives that aren't per-mutation are rescored in full against
+ * previousScore, the objective score before the changes.
+ */
+export function calculateScoreDelta(
+  state: OptimizerState,
+  changes: Map<string, OptimizerPlacedMutation | undefined>,
+  objectiveType: ObjectiveType,
+  previousScore: number,
+  targetMutationId?: string
+): number {
+  if (!isPerMutationObjective(objectiveType)) {
+    return calculateScore(state, objectiveType, targetMutationId) - previousScore;
+  }
+
+  let delta = 0;
+  for (const [placedId, previous] of changes) {
+    const current = state.placedMutations.get(placedId);
+    if (current) delta += calculateMutationScore(current.mutationId, objectiveType, targetMutationId);
+    if (previous) delta -= calculateMutationScore(previous.mutationId, objectiveType, targetMutationId);
+  }
+  return delta;
+}
+
 /**
  * Get detailed score breakdown for UI display
  */
@@ -124,7 +229,7 @@ export function getScoreBreakdown(state: OptimizerState): {
 
     // Count effects
     for (const effect of mutation.effects) {
-      const weight = EFFECT_WEIGHTS[effect] || 0;
+      const weight = getEffectWeight(effect);
       if (weight > 0) {
         positiveEffects++;
       } else if (weight < 0) {
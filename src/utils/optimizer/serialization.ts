@@ -0,0 +1,91 @@
+import type {
+  OptimizerState,
+  OptimizerResult,
+  OptimizerPlacedMutation,
+  SerializedOptimizerState,
+  SerializedOptimizerResult
+} from '@types';
+import { buildOccupancyIndex } from './occupancyIndex';
+
+/**
+ * Convert an optimizer state into plain arrays/objects so it can cross
+ * a worker boundary (or be stored as JSON) without relying on Map support
+ */
+export function serializeState(state: OptimizerState): SerializedOptimizerState {
+  return {
+    grid: state.grid.map(row => [...row]),
+    ground: { ...state.ground },
+    placedMutations: Array.from(state.placedMutations.values()).map(mutation => ({
+      id: mutation.id,
+      mutationId: mutation.mutationId,
+      position: { ...mutation.position },
+      geometry: mutation.geometry,
+      satisfyingCrops: Array.from(mutation.satisfyingCrops.entries()).map(
+        ([crop, positions]) => [crop, positions.map(p => ({ ...p }))]
+      ),
+      satisfyingMutations: Array.from(mutation.satisfyingMutations.entries()).map(
+        ([mutationId, placedIds]) => [mutationId, [...placedIds]]
+      ),
+      pinned: mutation.pinned
+    })),
+    placedCrops: Array.from(state.placedCrops.values()).map(crop => ({
+      ...crop,
+      position: { ...crop.position },
+      forMutations: [...crop.forMutations]
+    })),
+    score: state.score
+  };
+}
+
+/**
+ * Rebuild a Map-based optimizer state from its serialized form
+ */
+export function deserializeState(serialized: SerializedOptimizerState): OptimizerState {
+  const placedMutations = new Map<string, OptimizerPlacedMutation>();
+  for (const mutation of serialized.placedMutations) {
+    placedMutations.set(mutation.id, {
+      id: mutation.id,
+      mutationId: mutation.mutationId,
+      position: { ...mutation.position },
+      geometry: mutation.geometry,
+      satisfyingCrops: new Map(mutation.satisfyingCrops),
+      satisfyingMutations: new Map(mutation.satisfyingMutations),
+      pinned: mutation.pinned
+    });
+  }
+
+  const grid = serialized.grid.map(row => [...row]);
+  const placedCrops = new Map(serialized.placedCrops.map(crop => [crop.id, crop]));
+
+  return {
+    grid,
+    ground: { ...serialized.ground },
+    placedMutations,
+    placedCrops,
+    // The index is derived data, so it is rebuilt rather than sent
+    index: buildOccupancyIndex(grid, placedMutations, placedCrops),
+    score: serialized.score
+  };
+}
+
+/**
+ * Serialize an optimizer result for postMessage
+ */
+export function serializeResult(result: OptimizerResult): SerializedOptimizerResult {
+  return {
+    ...result,
+    state: serializeState(result.state),
+    finalState: result.finalState && serializeState(result.finalState)
+  };
+}
+
+/**
+ * Rebuild an optimizer result received from a worker
+ */
+export function deserializeResult(serialized: SerializedOptimizerResult): OptimizerResult {
+  return {
+    ...serialized,
+    state: deserializeState(serialized.state),
+    finalState: serialized.finalState && deserializeState(serialized.finalState)
+  };
+}
@@ -1,44 +1,214 @@
 import type {
   Position,
+  GridSize,
+  GroundMap,
+  CustomDesignGrid,
   OptimizerState,
   OptimizerPlacedMutation,
   OptimizerPlacedCrop
 } from '@types';
-import { getGeometryCached, getOccupiedCells, canFitInUnlockedSlots, canFitInGrid } from './geometry';
+import {
+  getGeometryCached,
+  getOccupiedCells,
+  getAdjacentCells,
+  canFitInUnlockedSlots,
+  canFitInGrid,
+  getGridSize,
+  canFitOnGround,
+  canPlaceCropOnGround,
+  getCellGround
+} from './geometry';
 import {
   findCropPlacements,
+  findCropSharers,
   needsIsolation,
   wouldViolateIsolation,
   canSatisfyConditions,
   areConditionsSatisfied,
-  hasSpecialConditions
+  hasSpecialConditions,
+  needsAllPositiveEffects,
+  getAdjacentContents,
+  getRequiredCrops,
+  getRequiredMutations
 } from './cropSolver';
+import {
+  createOccupancyIndex,
+  cloneOccupancyIndex,
+  indexMutation,
+  indexCrop,
+  getMutationAt,
+  getCropAt,
+  getCropsForMutation
+} from './occupancyIndex';
 import { getMutationData } from '@data/mutationsData';
+import { DEFAULT_GRID_SIZE } from '@data/constants';
+import { randomInt } from './random';
+import type { RandomSource } from './random';
 
 let mutationCounter = 0;
 let cropCounter = 0;
 
-function generateMutationId(): string {
-  return `mutation_${++mutationCounter}`;
+// Ids are unique per state; the check matters for states built elsewhere
+// (e.g. deserialized from another thread) whose ids the counters never saw
+function generateMutationId(state: OptimizerState): string {
+  let id: string;
+  do {
+    id = `mutation_${++mutationCounter}`;
+  } while (state.placedMutations.has(id));
+  return id;
+}
+
+function generateCropId(state: OptimizerState): string {
+  let id: string;
+  do {
+    id = `crop_${++cropCounter}`;
+  } while (state.placedCrops.has(id));
+  return id;
 }
 
-function generateCropId(): string {
-  return `crop_${++cropCounter}`;
+/**
+ * Inverse of a single state change, recorded while a transaction is open
+ */
+type UndoEntry =
+  | { kind: 'cell'; position: Position; previous: string | null }
+  | { kind: 'mutation'; id: string; previous: OptimizerPlacedMutation | undefined }
+  | { kind: 'crop'; id: string; previous: OptimizerPlacedCrop | undefined };
+
+// Open transactions per state; states without an entry are mutated without logging
+const undoLogs = new WeakMap<OptimizerState, UndoEntry[]>();
+
+function setCell(state: OptimizerState, position: Position, value: string | null): void {
+  undoLogs.get(state)?.push({ kind: 'cell', position, previous: state.grid[position.y][position.x] });
+  state.grid[position.y][position.x] = value;
+}
+
+function setPlacedMutation(
+  state: OptimizerState,
+  id: string,
+  mutation: OptimizerPlacedMutation | undefined
+): void {
+  const previous = state.placedMutations.get(id);
+  undoLogs.get(state)?.push({ kind: 'mutation', id, previous });
+  if (previous) indexMutation(state.index, previous, false);
+  if (mutation) {
+    state.placedMutations.set(id, mutation);
+    indexMutation(state.index, mutation, true);
+  } else {
+    state.placedMutations.delete(id);
+  }
+}
+
+function setPlacedCrop(state: OptimizerState, id: string, crop: OptimizerPlacedCrop | undefined): void {
+  const previous = state.placedCrops.get(id);
+  undoLogs.get(state)?.push({ kind: 'crop', id, previous });
+  if (previous) indexCrop(state.index, previous, false);
+  if (crop) {
+    state.placedCrops.set(id, crop);
+    indexCrop(state.index, crop, true);
+  } else {
+    state.placedCrops.delete(id);
+  }
+}
+
+/**
+ * Start recording changes to a state so they can be rolled back.
+ * Placed mutations and crops are replaced rather than edited while a
+ * transaction is open, so recorded entries stay valid snapshots.
+ */
+export function beginTransaction(state: OptimizerState): void {
+  undoLogs.set(state, []);
+}
+
+/**
+ * Keep all changes made since beginTransaction
+ */
+export function commitTransaction(state: OptimizerState): void {
+  undoLogs.delete(state);
+}
+
+/**
+ * Undo log entries newest first, down to (but not including) index `until`.
+ * The log must already be detached from the state so undoing isn't recorded.
+ */
+function undoEntries(state: OptimizerState, log: UndoEntry[], until: number): void {
+  for (let i = log.length - 1; i >= until; i--) {
+    const entry = log[i];
+    switch (entry.kind) {
+      case 'cell':
+        state.grid[entry.position.y][entry.position.x] = entry.previous;
+        break;
+      case 'mutation':
+        setPlacedMutation(state, entry.id, entry.previous);
+        break;
+      case 'crop':
+        setPlacedCrop(state, entry.id, entry.previous);
+        break;
+    }
+  }
+  log.length = until;
+}
+
+/**
+ * Undo all changes made since beginTransaction, newest first
+ */
+export function rollbackTransaction(state: OptimizerState): void {
+  const log = undoLogs.get(state);
+  if (!log) return;
+  undoLogs.delete(state);
+  undoEntries(state, log, 0);
+}
+
+/**
+ * Mark a point inside the open transaction that can later be rolled back to
+ * without abandoning the changes made before it. Returns -1 if no
+ * transaction is open.
+ */
+export function createSavepoint(state: OptimizerState): number {
+  return undoLogs.get(state)?.length ?? -1;
+}
+
+/**
+ * Undo the changes made since a savepoint, keeping the transaction open
+ */
+export function rollbackToSavepoint(state: OptimizerState, savepoint: number): void {
+  const log = undoLogs.get(state);
+  if (!log || savepoint < 0) return;
+  undoLogs.delete(state);
+  undoEntries(state, log, savepoint);
+  undoLogs.set(state, log);
+}
+
+/**
+ * Placed mutations touched by the open transaction, mapped to their
+ * value before it started (undefined if newly placed)
+ */
+export function getTransactionMutationChanges(
+  state: OptimizerState
+): Map<string, OptimizerPlacedMutation | undefined> {
+  const changes = new Map<string, OptimizerPlacedMutation | undefined>();
+  for (const entry of undoLogs.get(state) ?? []) {
+    if (entry.kind === 'mutation' && !changes.has(entry.id)) {
+      changes.set(entry.id, entry.previous);
+    }
+  }
+  return changes;
 }
 
 /**
  * Create an empty optimizer state
  */
-export function createEmptyState(gridSize: number = 10): OptimizerState {
+export function createEmptyState(gridSize: GridSize = DEFAULT_GRID_SIZE, ground: GroundMap = {}): OptimizerState {
   const grid: (string | null)[][] = [];
-  for (let y = 0; y < gridSize; y++) {
-    grid.push(new Array(gridSize).fill(null));
+  for (let y = 0; y < gridSize.height; y++) {
+    grid.push(new Array(gridSize.width).fill(null));
   }
 
   return {
     grid,
+    ground,
     placedMutations: new Map(),
     placedCrops: new Map(),
+    index: createOccupancyIndex(gridSize.width, gridSize.height),
     score: 0
   };
 }
@@ -75,8 +245,11 @@ export function deepCloneState(state: OptimizerState): OptimizerState {
 
   return {
     grid: newGrid,
+    // Ground never changes during a run, so it is shared rather than copied
+    ground: state.ground,
     placedMutations: newPlacedMutations,
     placedCrops: newPlacedCrops,
+    index: cloneOccupancyIndex(state.index),
     score: state.score
   };
 }
@@ -106,11 +279,14 @@ export function canPlaceMutation(
   if (hasSpecialConditions(mutationId)) return false;
 
   // Check grid bounds
-  if (!canFitInGrid(position, geometry)) return false;
+  if (!canFitInGrid(position, geometry, getGridSize(state.grid))) return false;
 
   // Check unlocked slots
   if (!canFitInUnlockedSlots(position, geometry, unlockedSlots)) return false;
 
+  // Check the ground under the whole footprint
+  if (!canFitOnGround(mutationId, position, geometry, state.ground)) return false;
+
   // Check for overlaps with existing placements
   const occupiedCells = getOccupiedCells(position, geometry);
   for (const cell of occupiedCells) {
@@ -139,12 +315,12 @@ export function placeMutation(
   }
 
   const geometry = getGeometryCached(mutationId);
-  const placedId = generateMutationId();
+  const placedId = generateMutationId(state);
 
   // Mark cells as occupied
   const occupiedCells = getOccupiedCells(position, geometry);
   for (const cell of occupiedCells) {
-    state.grid[cell.y][cell.x] = placedId;
+    setCell(state, cell, placedId);
   }
 
   // Add to placed mutations
@@ -156,13 +332,49 @@ export function placeMutation(
     satisfyingCrops: new Map(),
     satisfyingMutations: new Map()
   };
-  state.placedMutations.set(placedId, placedMutation);
+  setPlacedMutation(state, placedId, placedMutation);
 
   return { success: true, placedId };
 }
 
 /**
- * Remove a mutation and its associated crops from the grid
+ * Remove the unpinned neighbours of a just-removed mutation that needed it
+ * and are no longer satisfied without it
+ */
+function removeBrokenDependents(removed: OptimizerPlacedMutation, state: OptimizerState): void {
+  const neighbourIds = new Set<string>();
+  for (const cell of getAdjacentCells(removed.position, removed.geometry)) {
+    const neighbourId = getMutationAt(state, cell);
+    if (neighbourId) neighbourIds.add(neighbourId);
+  }
+
+  for (const neighbourId of neighbourIds) {
+    // An earlier cascade may already have removed it
+    const neighbour = state.placedMutations.get(neighbourId);
+    if (!neighbour || neighbour.pinned) continue;
+    if (!getRequiredMutations(neighbour.mutationId).has(removed.mutationId)) continue;
+
+    if (!areConditionsSatisfied(neighbour.mutationId, neighbour.position, state).satisfied) {
+      removeMutation(neighbourId, state);
+    }
+  }
+
+  // Effects reach beyond the adjacency ring, so anything that relies on
+  // them is rechecked wherever it is
+  if (getMutationData(removed.mutationId)?.effects.length) {
+    for (const [placedId, placed] of Array.from(state.placedMutations)) {
+      if (placed.pinned || !needsAllPositiveEffects(placed.mutationId)) continue;
+      if (!state.placedMutations.has(placedId)) continue;
+      if (!areConditionsSatisfied(placed.mutationId, placed.position, state).satisfied) {
+        removeMutation(placedId, state);
+      }
+    }
+  }
+}
+
+/**
+ * Remove a mutation and its associated crops from the grid, along with any
+ * mutations that needed it and are left unsatisfied
  */
 export function removeMutation(placedId: string, state: OptimizerState): boolean {
   const placedMutation = state.placedMutations.get(placedId);
@@ -171,29 +383,27 @@ export function removeMutation(placedId: string, state: OptimizerState): boolean
   // Clear cells occupied by mutation
   const occupiedCells = getOccupiedCells(placedMutation.position, placedMutation.geometry);
   for (const cell of occupiedCells) {
-    state.grid[cell.y][cell.x] = null;
+    setCell(state, cell, null);
   }
 
-  // Remove associated crops
-  for (const [, positions] of placedMutation.satisfyingCrops) {
-    for (const pos of positions) {
-      // Find and remove crop at this position
-      for (const [cropId, crop] of state.placedCrops) {
-        if (crop.position.x === pos.x && crop.position.y === pos.y) {
-          // Remove this mutation from crop's forMutations
-          crop.forMutations = crop.forMutations.filter(id => id !== placedId);
-          // If no mutations depend on this crop, remove it
-          if (crop.forMutations.length === 0) {
-            state.grid[crop.position.y][crop.position.x] = null;
-            state.placedCrops.delete(cropId);
-          }
-          break;
-        }
-      }
+  // Remove associated crops (copied, since updating crops changes the index set)
+  for (const cropId of Array.from(getCropsForMutation(state, placedId))) {
+    const crop = state.placedCrops.get(cropId);
+    if (!crop) continue;
+
+    // Remove this mutation from crop's forMutations
+    const forMutations = crop.forMutations.filter(id => id !== placedId);
+    // If no mutations depend on this crop, remove it (pinned crops stay)
+    if (forMutations.length === 0 && !crop.pinned) {
+      setCell(state, crop.position, null);
+      setPlacedCrop(state, cropId, undefined);
+    } else {
+      setPlacedCrop(state, cropId, { ...crop, forMutations });
     }
   }
 
-  state.placedMutations.delete(placedId);
+  setPlacedMutation(state, placedId, undefined);
+  removeBrokenDependents(placedMutation, state);
   return true;
 }
 
@@ -217,26 +427,35 @@ export function placeCrop(
 
   if (existing !== null) {
     // Check if it's an existing crop of the same type
-    const existingCrop = state.placedCrops.get(existing);
+    const existingCropId = getCropAt(state, position);
+    const existingCrop = existingCropId ? state.placedCrops.get(existingCropId) : undefined;
     if (existingCrop && existingCrop.crop === cropType) {
       // Add this mutation to its forMutations
       if (!existingCrop.forMutations.includes(forMutationId)) {
-        existingCrop.forMutations.push(forMutationId);
+        setPlacedCrop(state, existing, {
+          ...existingCrop,
+          forMutations: [...existingCrop.forMutations, forMutationId]
+        });
       }
       return { success: true, placedId: existing };
     }
     return { success: false, placedId: null };
   }
 
+  // Check the crop can grow on this cell's ground
+  if (!canPlaceCropOnGround(cropType, getCellGround(state.ground, position))) {
+    return { success: false, placedId: null };
+  }
+
   // Check if this would violate isolation rules
   if (wouldViolateIsolation(position, state)) {
     return { success: false, placedId: null };
   }
 
-  const placedId = generateCropId();
+  const placedId = generateCropId(state);
 
-  state.grid[position.y][position.x] = placedId;
-  state.placedCrops.set(placedId, {
+  setCell(state, position, placedId);
+  setPlacedCrop(state, placedId, {
     id: placedId,
     crop: cropType,
     position,
@@ -247,13 +466,31 @@ export function placeCrop(
 }
 
 /**
- * Place required crops for a mutation and verify they satisfy requirements
+ * Link a crop to more mutations it satisfies
+ */
+function shareCrop(cropId: string, sharers: string[], state: OptimizerState): void {
+  const crop = state.placedCrops.get(cropId);
+  if (!crop) return;
+
+  setPlacedCrop(state, cropId, { ...crop, forMutations: [...crop.forMutations, ...sharers] });
+  for (const sharerId of sharers) {
+    const sharer = state.placedMutations.get(sharerId)!;
+    const satisfyingCrops = new Map(sharer.satisfyingCrops);
+    satisfyingCrops.set(crop.crop, [...(satisfyingCrops.get(crop.crop) || []), crop.position]);
+    setPlacedMutation(state, sharerId, { ...sharer, satisfyingCrops });
+  }
+}
+
+/**
+ * Place required crops for a mutation and verify they satisfy requirements.
+ * Crops go where findCropPlacements puts them unless given positions.
  * Returns false if requirements cannot be satisfied
  */
 export function placeRequiredCrops(
   placedMutationId: string,
   state: OptimizerState,
-  unlockedSlots: Set<string>
+  unlockedSlots: Set<string>,
+  chosenPlacements?: Map<string, Position[]>
 ): boolean {
   const placedMutation = state.placedMutations.get(placedMutationId);
   if (!placedMutation) return false;
@@ -263,7 +500,7 @@ export function placeRequiredCrops(
     return true;
   }
 
-  const cropPlacements = findCropPlacements(
+  const cropPlacements = chosenPlacements ?? findCropPlacements(
     placedMutation.mutationId,
     placedMutation.position,
     state,
@@ -275,19 +512,27 @@ export function placeRequiredCrops(
     return false;
   }
 
-  // Place each crop
+  // Place each crop, tracking which crops satisfy this mutation
+  const satisfyingCrops = new Map(
+    Array.from(placedMutation.satisfyingCrops.entries()).map(([k, v]) => [k, [...v]])
+  );
   for (const [cropType, positions] of cropPlacements) {
     for (const pos of positions) {
+      // A new crop also serves neighbours still short of its type
+      const sharers = state.grid[pos.y]?.[pos.x] === null
+        ? findCropSharers(pos, cropType, state, placedMutationId)
+        : [];
       const result = placeCrop(cropType, pos, placedMutationId, state, unlockedSlots);
       if (result.success && result.placedId) {
-        // Track that this crop satisfies this mutation
-        if (!placedMutation.satisfyingCrops.has(cropType)) {
-          placedMutation.satisfyingCrops.set(cropType, []);
+        if (!satisfyingCrops.has(cropType)) {
+          satisfyingCrops.set(cropType, []);
         }
-        placedMutation.satisfyingCrops.get(cropType)!.push(pos);
+        satisfyingCrops.get(cropType)!.push(pos);
+        if (sharers.length > 0) shareCrop(result.placedId, sharers, state);
       }
     }
   }
+  setPlacedMutation(state, placedMutationId, { ...placedMutation, satisfyingCrops });
 
   // Verify that after placing crops, the mutation's conditions are satisfied
   const { satisfied } = areConditionsSatisfied(
@@ -335,6 +580,8 @@ export function validateAndCleanState(state: OptimizerState): number {
   const toRemove: string[] = [];
 
   for (const [placedId, placedMutation] of state.placedMutations) {
+    if (placedMutation.pinned) continue;
+
     const { satisfied } = areConditionsSatisfied(
       placedMutation.mutationId,
       placedMutation.position,
@@ -354,6 +601,118 @@ export function validateAndCleanState(state: OptimizerState): number {
   return removedCount;
 }
 
+/**
+ * Build an optimizer state from a designer grid so a run can start from an
+ * existing layout. Crops are assigned to the adjacent mutations that need
+ * them (filling forMutations); crops serving nothing and mutations whose
+ * conditions aren't met are dropped, since the optimizer only keeps valid
+ * placements. Pinned cells are always kept, along with any mutations a
+ * pinned mutation relies on.
+ */
+export function createStateFromDesignGrid(designGrid: CustomDesignGrid, ground: GroundMap = {}): OptimizerState {
+  const state = createEmptyState(designGrid.length > 0 ? getGridSize(designGrid) : DEFAULT_GRID_SIZE, ground);
+
+  // Mutations first, so crops can't claim cells of a multi-cell footprint
+  designGrid.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (cell.type !== 'mutation' || !cell.mutationId || !getMutationData(cell.mutationId)) return;
+
+      const position = { x, y };
+      const geometry = getGeometryCached(cell.mutationId);
+      if (!canFitInGrid(position, geometry, getGridSize(state.grid))) return;
+
+      const occupiedCells = getOccupiedCells(position, geometry);
+      if (occupiedCells.some(c => isCellOccupied(state, c))) return;
+
+      const placedId = generateMutationId(state);
+      for (const c of occupiedCells) {
+        setCell(state, c, placedId);
+      }
+      setPlacedMutation(state, placedId, {
+        id: placedId,
+        mutationId: cell.mutationId,
+        position,
+        geometry,
+        satisfyingCrops: new Map(),
+        satisfyingMutations: new Map(),
+        pinned: cell.pinned
+      });
+    });
+  });
+
+  designGrid.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (cell.type !== 'crop' || !cell.cropType || isCellOccupied(state, { x, y })) return;
+
+      const placedId = generateCropId(state);
+      setCell(state, { x, y }, placedId);
+      setPlacedCrop(state, placedId, {
+        id: placedId,
+        crop: cell.cropType,
+        position: { x, y },
+        forMutations: [],
+        pinned: cell.pinned
+      });
+    });
+  });
+
+  // Link each mutation to the adjacent crops and mutations that satisfy it
+  for (const placedMutation of Array.from(state.placedMutations.values())) {
+    const { adjacentCrops, adjacentMutations } =
+      getAdjacentContents(placedMutation.position, placedMutation.mutationId, state);
+
+    const satisfyingCrops = new Map<string, Position[]>();
+    for (const [cropType, needed] of getRequiredCrops(placedMutation.mutationId)) {
+      const positions = (adjacentCrops.get(cropType) || []).slice(0, needed);
+      if (positions.length === 0) continue;
+      satisfyingCrops.set(cropType, positions);
+
+      for (const pos of positions) {
+        const cropId = getCropAt(state, pos);
+        const crop = cropId ? state.placedCrops.get(cropId) : undefined;
+        if (crop) {
+          setPlacedCrop(state, crop.id, { ...crop, forMutations: [...crop.forMutations, placedMutation.id] });
+        }
+      }
+    }
+
+    const satisfyingMutations = new Map<string, string[]>();
+    for (const [mutationType, needed] of getRequiredMutations(placedMutation.mutationId)) {
+      const placedIds = (adjacentMutations.get(mutationType) || []).slice(0, needed);
+      if (placedIds.length > 0) satisfyingMutations.set(mutationType, placedIds);
+    }
+
+    setPlacedMutation(state, placedMutation.id, { ...placedMutation, satisfyingCrops, satisfyingMutations });
+  }
+
+  // Removing a pinned mutation's prerequisite would break it, so pin those too
+  const toPin = Array.from(state.placedMutations.values()).filter(m => m.pinned);
+  while (toPin.length > 0) {
+    const placedMutation = toPin.pop()!;
+    for (const placedIds of placedMutation.satisfyingMutations.values()) {
+      for (const placedId of placedIds) {
+        const prerequisite = state.placedMutations.get(placedId);
+        if (!prerequisite || prerequisite.pinned) continue;
+        const pinned = { ...prerequisite, pinned: true };
+        setPlacedMutation(state, placedId, pinned);
+        toPin.push(pinned);
+      }
+    }
+  }
+
+  for (const crop of Array.from(state.placedCrops.values())) {
+    if (crop.forMutations.length === 0 && !crop.pinned) {
+      setCell(state, crop.position, null);
+      setPlacedCrop(state, crop.id, undefined);
+    }
+  }
+
+  // Removing one mutation can break another that needed it, so repeat until stable
+  while (validateAndCleanState(state) > 0);
+
+  return state;
+}
+
 /**
  * Get count of mutations placed
  */
@@ -376,12 +735,15 @@ export function getPlacedMutationIds(state: OptimizerState): string[] {
 }
 
 /**
- * Get random placed mutation
+ * Get a random placed mutation that moves may change (never a pinned one)
  */
-export function getRandomPlacedMutation(state: OptimizerState): OptimizerPlacedMutation | null {
-  const mutations = Array.from(state.placedMutations.values());
+export function getRandomPlacedMutation(
+  state: OptimizerState,
+  random: RandomSource = Math.random
+): OptimizerPlacedMutation | null {
+  const mutations = Array.from(state.placedMutations.values()).filter(m => !m.pinned);
   if (mutations.length === 0) return null;
-  return mutations[Math.floor(Math.random() * mutations.length)];
+  return mutations[randomInt(random, mutations.length)];
 }
 
 /**
@@ -391,25 +753,34 @@ export function getEmptyUnlockedCells(
   state: OptimizerState,
   unlockedSlots: Set<string>
 ): Position[] {
-  const cells: Position[] = [];
+  return getUnlockedPositions(unlockedSlots).filter(({ x, y }) => state.grid[y]?.[x] === null);
+}
 
-  for (const slot of unlockedSlots) {
-    const [y, x] = slot.split(',').map(Number);
-    if (state.grid[y]?.[x] === null) {
-      cells.push({ x, y });
-    }
-  }
+// Parsed "row,col" keys per unlocked slot set; the sets are not mutated during a run
+const unlockedPositionsCache = new WeakMap<Set<string>, Position[]>();
 
-  return cells;
+/**
+ * Get unlocked slots as positions
+ */
+export function getUnlockedPositions(unlockedSlots: Set<string>): Position[] {
+  let positions = unlockedPositionsCache.get(unlockedSlots);
+  if (!positions) {
+    positions = Array.from(unlockedSlots, slot => {
+      const [y, x] = slot.split(',').map(Number);
+      return { x, y };
+    });
+    unlockedPositionsCache.set(unlockedSlots, positions);
+  }
+  return positions;
 }
 
 /**
- * Shuffle an array in place (Fisher-Yates)
+ * Shuffled copy of an array (Fisher-Yates); the input is left untouched
  */
-export function shuffleArray<T>(array: T[]): T[] {
+export function shuffleArray<T>(array: T[], random: RandomSource = Math.random): T[] {
   const result = [...array];
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = randomInt(random, i + 1);
     [result[i], result[j]] = [result[j], result[i]];
   }
   return result;
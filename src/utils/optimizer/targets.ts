@@ -0,0 +1,184 @@
+import type {
+  OptimizerState,
+  OptimizerPlacedMutation,
+  ObjectiveType,
+  MutationTargets,
+  MutationTargetStatus
+} from '@types';
+import { calculateMutationScore } from './scoring';
+
+// Score cost of each missing unit, as a multiple of the best single mutation's
+// score, so filling a minimum beats spending the space on anything else
+const SHORTFALL_PENALTY_FACTOR = 3;
+
+interface CountBounds {
+  min: number;
+  max: number;
+}
+
+/**
+ * Count targets for a run, with running placement counts so a move's
+ * effect on them can be scored incrementally
+ */
+export interface TargetTracker {
+  bounds: Map<string, CountBounds>;
+  counts: Map<string, number>;
+  penaltyPerUnit: number;
+  pending: Map<string, number>;
+}
+
+/**
+ * Resolve exact/min/max targets into inclusive bounds
+ */
+export function resolveTargets(targets: MutationTargets): Map<string, CountBounds> {
+  const bounds = new Map<string, CountBounds>();
+
+  for (const [mutationId, target] of Object.entries(targets)) {
+    const min = target.exact ?? target.min ?? 0;
+    const max = target.exact ?? target.max ?? Infinity;
+    if (min < 0 || max < min) {
+      throw new Error(`Invalid count target for ${mutationId}: min ${min}, max ${max}`);
+    }
+    bounds.set(mutationId, { min, max });
+  }
+
+  return bounds;
+}
+
+/**
+ * Count placed mutations by mutation id
+ */
+export function countMutations(state: OptimizerState): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const placed of state.placedMutations.values()) {
+    counts.set(placed.mutationId, (counts.get(placed.mutationId) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Net change in per-id counts caused by a set of mutation changes
+ */
+function getCountChanges(
+  state: OptimizerState,
+  changes: Map<string, OptimizerPlacedMutation | undefined>
+): Map<string, number> {
+  const countChanges = new Map<string, number>();
+  for (const [placedId, previous] of changes) {
+    const current = state.placedMutations.get(placedId);
+    if (current?.mutationId === previous?.mutationId) continue;
+    if (current) countChanges.set(current.mutationId, (countChanges.get(current.mutationId) || 0) + 1);
+    if (previous) countChanges.set(previous.mutationId, (countChanges.get(previous.mutationId) || 0) - 1);
+  }
+  return countChanges;
+}
+
+function shortfall(bounds: CountBounds, count: number): number {
+  return Math.max(0, bounds.min - count);
+}
+
+/**
+ * Create a tracker for a state, or null when the run has no targets
+ */
+export function createTargetTracker(
+  state: OptimizerState,
+  targets: MutationTargets | undefined,
+  availableMutations: string[],
+  objectiveType: ObjectiveType,
+  targetMutationId?: string
+): TargetTracker | null {
+  if (!targets || Object.keys(targets).length === 0) return null;
+
+  const bestUnitScore = Math.max(
+    1,
+    ...availableMutations.map(mutationId => calculateMutationScore(mutationId, objectiveType, targetMutationId))
+  );
+
+  return {
+    bounds: resolveTargets(targets),
+    counts: countMutations(state),
+    penaltyPerUnit: bestUnitScore * SHORTFALL_PENALTY_FACTOR,
+    pending: new Map()
+  };
+}
+
+/**
+ * Check whether another mutation of this id may still be placed
+ */
+export function isBelowMax(tracker: TargetTracker | null, mutationId: string): boolean {
+  if (!tracker) return true;
+  const bounds = tracker.bounds.get(mutationId);
+  return !bounds || (tracker.counts.get(mutationId) || 0) < bounds.max;
+}
+
+/**
+ * Score penalty for every missing unit across all targets
+ */
+export function calculateTargetPenalty(tracker: TargetTracker | null): number {
+  if (!tracker) return 0;
+
+  let missing = 0;
+  for (const [mutationId, bounds] of tracker.bounds) {
+    missing += shortfall(bounds, tracker.counts.get(mutationId) || 0);
+  }
+  return missing * tracker.penaltyPerUnit;
+}
+
+/**
+ * Evaluate the open transaction's mutation changes against the targets.
+ * Returns null if they would exceed a maximum, otherwise the change in
+ * penalty; the counts are held until commitTargetChanges.
+ */
+export function evaluateTargetChanges(
+  tracker: TargetTracker,
+  state: OptimizerState,
+  changes: Map<string, OptimizerPlacedMutation | undefined>
+): number | null {
+  const countChanges = getCountChanges(state, changes);
+  let penaltyDelta = 0;
+
+  for (const [mutationId, change] of countChanges) {
+    const bounds = tracker.bounds.get(mutationId);
+    if (!bounds) continue;
+
+    const count = tracker.counts.get(mutationId) || 0;
+    if (change > 0 && count + change > bounds.max) return null;
+    penaltyDelta += (shortfall(bounds, count + change) - shortfall(bounds, count)) * tracker.penaltyPerUnit;
+  }
+
+  tracker.pending = countChanges;
+  return penaltyDelta;
+}
+
+/**
+ * Apply the counts of the last evaluated changes once the move is accepted
+ */
+export function commitTargetChanges(tracker: TargetTracker): void {
+  for (const [mutationId, change] of tracker.pending) {
+    tracker.counts.set(mutationId, (tracker.counts.get(mutationId) || 0) + change);
+  }
+  tracker.pending = new Map();
+}
+
+/**
+ * Report how a state measures up against each target
+ */
+export function getTargetStatus(state: OptimizerState, targets: MutationTargets): MutationTargetStatus[] {
+  return getCountTargetStatus(countMutations(state), targets);
+}
+
+/**
+ * Report how placement counts measure up against each target
+ */
+export function getCountTargetStatus(counts: Map<string, number>, targets: MutationTargets): MutationTargetStatus[] {
+  return Array.from(resolveTargets(targets), ([mutationId, { min, max }]) => {
+    const count = counts.get(mutationId) || 0;
+    return {
+      mutationId,
+      count,
+      min,
+      max: Number.isFinite(max) ? max : null,
+      met: count >= min && count <= max
+    };
+  });
+}
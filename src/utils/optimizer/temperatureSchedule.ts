@@ -0,0 +1,122 @@
+import type { OptimizerConfig, AdaptiveScheduleOptions } from '@types';
+
+/**
+ * Temperature schedules for the annealing loop.
+ *
+ * fixed:    geometric cooling from startTemperature by coolingRate
+ * adaptive: the start temperature is calibrated from sampled move deltas,
+ *           cooling is paced to the run length and the acceptance ratio,
+ *           and the temperature is raised again when the best score has
+ *           been stuck for a while
+ */
+
+// Random moves sampled to calibrate the adaptive start temperature
+export const CALIBRATION_SAMPLES = 100;
+
+// Adaptive runs end at this fraction of the calibrated start temperature, reheats aside
+const FINAL_TEMPERATURE_RATIO = 0.001;
+
+// Smoothing of the tracked acceptance ratio (weight of the newest move)
+const ACCEPTANCE_SMOOTHING = 0.01;
+
+// Above this acceptance ratio the run is wasting moves on a random walk, so it cools twice as fast
+const HIGH_ACCEPTANCE = 0.6;
+
+// Below this acceptance ratio the run is frozen; only a frozen run that has stopped improving is reheated
+const FROZEN_ACCEPTANCE = 0.05;
+
+export const DEFAULT_ADAPTIVE_OPTIONS: AdaptiveScheduleOptions = {
+  initialAcceptance: 0.3,
+  reheatWindow: 0,
+  reheatRatio: 0.5
+};
+
+/**
+ * Running temperature schedule of one annealing run
+ */
+export interface TemperatureSchedule {
+  adaptive: boolean;
+  temperature: number;
+  startTemperature: number;
+  coolingRate: number;
+  options: AdaptiveScheduleOptions;
+  // Smoothed share of recent worsening moves that were accepted
+  acceptanceRatio: number;
+  iterationsSinceImprovement: number;
+  reheats: number;
+}
+
+/**
+ * Start temperature at which a worsening move of average size is accepted
+ * with the given probability
+ */
+export function calibrateStartTemperature(worseningDeltas: number[], acceptance: number): number | null {
+  if (worseningDeltas.length === 0) return null;
+  const meanWorsening = worseningDeltas.reduce((sum, delta) => sum + Math.abs(delta), 0) / worseningDeltas.length;
+  if (meanWorsening === 0) return null;
+  return -meanWorsening / Math.log(acceptance);
+}
+
+/**
+ * Resolve the adaptive options of a config, filling in defaults. The
+ * reheat window defaults to a tenth of the run.
+ */
+export function getAdaptiveOptions(config: OptimizerConfig): AdaptiveScheduleOptions {
+  const options = { ...DEFAULT_ADAPTIVE_OPTIONS, ...config.adaptive };
+  if (options.reheatWindow <= 0) {
+    options.reheatWindow = Math.max(100, Math.floor(config.maxIterations / 10));
+  }
+  return options;
+}
+
+/**
+ * Create the schedule for a run. For adaptive runs startTemperature is
+ * the calibrated one, and the cooling rate is paced so the run ends cold.
+ */
+export function createTemperatureSchedule(config: OptimizerConfig, startTemperature: number): TemperatureSchedule {
+  const adaptive = config.schedule === 'adaptive';
+  return {
+    adaptive,
+    temperature: startTemperature,
+    startTemperature,
+    coolingRate: adaptive
+      ? Math.pow(FINAL_TEMPERATURE_RATIO, 1 / Math.max(1, config.maxIterations))
+      : config.coolingRate,
+    options: getAdaptiveOptions(config),
+    acceptanceRatio: 1,
+    iterationsSinceImprovement: 0,
+    reheats: 0
+  };
+}
+
+/**
+ * Track whether a worsening move was accepted. Improving and neutral
+ * moves are always taken, so they say nothing about the temperature.
+ */
+export function recordAcceptance(schedule: TemperatureSchedule, accepted: boolean): void {
+  schedule.acceptanceRatio += ((accepted ? 1 : 0) - schedule.acceptanceRatio) * ACCEPTANCE_SMOOTHING;
+}
+
+/**
+ * Advance the schedule by one iteration. Returns true when the adaptive
+ * schedule reheated on this iteration.
+ */
+export function advanceSchedule(schedule: TemperatureSchedule, improvedBest: boolean): boolean {
+  if (!schedule.adaptive) {
+    schedule.temperature *= schedule.coolingRate;
+    return false;
+  }
+
+  schedule.iterationsSinceImprovement = improvedBest ? 0 : schedule.iterationsSinceImprovement + 1;
+  const stuck = schedule.iterationsSinceImprovement >= schedule.options.reheatWindow;
+  if (stuck && schedule.acceptanceRatio < FROZEN_ACCEPTANCE) {
+    schedule.iterationsSinceImprovement = 0;
+    schedule.temperature = Math.max(schedule.temperature, schedule.startTemperature * schedule.options.reheatRatio);
+    schedule.reheats++;
+    return true;
+  }
+
+  const steps = schedule.acceptanceRatio > HIGH_ACCEPTANCE ? 2 : 1;
+  schedule.temperature *= Math.pow(schedule.coolingRate, steps);
+  return false;
+}
@@ -0,0 +1,274 @@
+import type {
+  Position,
+  OptimizerState,
+  OptimizerPlacedMutation,
+  OptimizerPlacedCrop,
+  LayoutViolation,
+  CustomDesignGrid,
+  GroundMap,
+  GridSize,
+  GroundType
+} from '@types';
+import { getMutationData } from '@data/mutationsData';
+import { CROP_GROUND_REQUIREMENTS, DEFAULT_GRID_SIZE } from '@data/constants';
+import {
+  getGeometryCached,
+  getOccupiedCells,
+  getGridSize,
+  isInBounds,
+  getCellGround,
+  checkGroundCompatibility,
+  canPlaceCropOnGround
+} from './geometry';
+import { buildOccupancyIndex, getCropAt, getMutationAt } from './occupancyIndex';
+import {
+  extractRequirements,
+  getAdjacentContents,
+  getMissingEffectKinds,
+  ALL_POSITIVE_EFFECTS_CONDITION
+} from './cropSolver';
+
+/**
+ * Layout validation. The optimizer's own checks stop at the first broken
+ * rule; the validator reports every rule a layout breaks, with the cells
+ * involved, for any layout - a run's state or a hand-made design.
+ */
+
+// A placement as the validator sees it: the cells it takes and what it holds
+interface Claim {
+  placedId: string;
+  subject: string;
+  cells: Position[];
+}
+
+/**
+ * Every rule broken by the placements of a state
+ */
+export function validateLayout(state: OptimizerState, unlockedSlots: Set<string>): LayoutViolation[] {
+  const violations: LayoutViolation[] = [];
+  const gridSize = getGridSize(state.grid);
+
+  const mutationClaims = Array.from(state.placedMutations.values()).map(placed => ({
+    placedId: placed.id,
+    subject: placed.mutationId,
+    cells: getOccupiedCells(placed.position, placed.geometry)
+  }));
+  const cropClaims = Array.from(state.placedCrops.values()).map(crop => ({
+    placedId: crop.id,
+    subject: crop.crop,
+    cells: [crop.position]
+  }));
+
+  // Cells claimed twice; mutations claim first, so an overlap names the mutation
+  const claimed = new Map<string, Claim>();
+  const overlaps = new Map<string, LayoutViolation>();
+  for (const claim of [...mutationClaims, ...cropClaims]) {
+    for (const cell of claim.cells) {
+      const key = `${cell.y},${cell.x}`;
+      const owner = claimed.get(key);
+      if (!owner) {
+        claimed.set(key, claim);
+        continue;
+      }
+
+      const pairKey = `${owner.placedId}|${claim.placedId}`;
+      const overlap = overlaps.get(pairKey);
+      if (overlap) {
+        overlap.cells.push(cell);
+      } else {
+        overlaps.set(pairKey, {
+          type: 'overlap',
+          placedId: owner.placedId,
+          subject: owner.subject,
+          otherId: claim.placedId,
+          otherSubject: claim.subject,
+          cells: [cell]
+        });
+      }
+    }
+  }
+  violations.push(...overlaps.values());
+
+  for (const claim of [...mutationClaims, ...cropClaims]) {
+    const outside = claim.cells.filter(cell => !isInBounds(cell, gridSize) || !unlockedSlots.has(`${cell.y},${cell.x}`));
+    if (outside.length > 0) {
+      violations.push({ type: 'out_of_slot', placedId: claim.placedId, subject: claim.subject, cells: outside });
+    }
+  }
+
+  for (const placed of state.placedMutations.values()) {
+    violations.push(...validateMutation(placed, state, gridSize));
+  }
+
+  for (const crop of state.placedCrops.values()) {
+    const required = getCropGroundMismatch(crop, state);
+    if (required) {
+      violations.push({
+        type: 'ground_mismatch',
+        placedId: crop.id,
+        subject: crop.crop,
+        required,
+        cells: [crop.position]
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Rules a placed mutation breaks on its own: ground, special conditions,
+ * effects, isolation and adjacent requirements
+ */
+function validateMutation(
+  placed: OptimizerPlacedMutation,
+  state: OptimizerState,
+  gridSize: GridSize
+): LayoutViolation[] {
+  const mutation = getMutationData(placed.mutationId);
+  if (!mutation) return [];
+
+  const violations: LayoutViolation[] = [];
+  const base = { placedId: placed.id, subject: placed.mutationId };
+  const footprint = getOccupiedCells(placed.position, placed.geometry).filter(cell => isInBounds(cell, gridSize));
+
+  const wrongGround = footprint.filter(cell =>
+    !checkGroundCompatibility(mutation.ground, getCellGround(state.ground, cell))
+  );
+  if (wrongGround.length > 0) {
+    violations.push({ ...base, type: 'ground_mismatch', required: mutation.ground, cells: wrongGround });
+  }
+
+  const { crops, mutations, adjacentCrops, special } = extractRequirements(mutation.conditions);
+
+  if (special && special !== ALL_POSITIVE_EFFECTS_CONDITION) {
+    violations.push({ ...base, type: 'unsupported_special', special, cells: footprint });
+  }
+
+  if (special === ALL_POSITIVE_EFFECTS_CONDITION) {
+    const missing = getMissingEffectKinds(placed.mutationId, placed.position, state);
+    if (missing.length > 0) {
+      violations.push({ ...base, type: 'missing_effects', effects: missing, cells: footprint });
+    }
+  }
+
+  const { adjacentCrops: existingCrops, adjacentMutations: existingMutations } =
+    getAdjacentContents(placed.position, placed.mutationId, state);
+
+  if (adjacentCrops === 0) {
+    const touching = Array.from(existingCrops.values()).flat();
+    if (touching.length > 0) {
+      violations.push({ ...base, type: 'isolation', cells: [...footprint, ...touching] });
+    }
+  }
+
+  for (const [crop, needed] of crops) {
+    const found = existingCrops.get(crop)?.length || 0;
+    if (found < needed) {
+      violations.push({ ...base, type: 'missing_crop', crop, needed, found, cells: footprint });
+    }
+  }
+
+  for (const [mutationId, needed] of mutations) {
+    const found = existingMutations.get(mutationId)?.length || 0;
+    if (found < needed) {
+      violations.push({ ...base, type: 'missing_mutation', mutationId, needed, found, cells: footprint });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Ground a crop needs, or null when its cell suits it
+ */
+function getCropGroundMismatch(crop: OptimizerPlacedCrop, state: OptimizerState): GroundType | null {
+  // A crop under a mutation's footprint is reported as an overlap instead
+  if (getCropAt(state, crop.position) !== crop.id || getMutationAt(state, crop.position)) return null;
+
+  if (canPlaceCropOnGround(crop.crop, getCellGround(state.ground, crop.position))) return null;
+  return CROP_GROUND_REQUIREMENTS[crop.crop] ?? null;
+}
+
+/**
+ * A designer layout as a state, with placements taken as drawn: nothing is
+ * dropped the way createStateFromDesignGrid does, and each placement is
+ * named by the "row,col" of its top-left cell. Crops aren't linked to the
+ * mutations they serve.
+ */
+export function createDesignGridState(
+  designGrid: CustomDesignGrid,
+  ground: GroundMap = {}
+): { state: OptimizerState; unlockedSlots: Set<string> } {
+  const gridSize = designGrid.length > 0 ? getGridSize(designGrid) : DEFAULT_GRID_SIZE;
+  const grid: (string | null)[][] = Array.from({ length: gridSize.height }, () => new Array(gridSize.width).fill(null));
+  const placedMutations = new Map<string, OptimizerPlacedMutation>();
+  const placedCrops = new Map<string, OptimizerPlacedCrop>();
+  const unlockedSlots = new Set<string>();
+
+  designGrid.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      const id = `${y},${x}`;
+      if (cell.type !== 'locked') unlockedSlots.add(id);
+
+      if (cell.type === 'mutation' && cell.mutationId && getMutationData(cell.mutationId)) {
+        const position = { x, y };
+        const geometry = getGeometryCached(cell.mutationId);
+        placedMutations.set(id, {
+          id,
+          mutationId: cell.mutationId,
+          position,
+          geometry,
+          satisfyingCrops: new Map(),
+          satisfyingMutations: new Map(),
+          pinned: cell.pinned
+        });
+        for (const c of getOccupiedCells(position, geometry)) {
+          if (isInBounds(c, gridSize) && grid[c.y][c.x] === null) grid[c.y][c.x] = id;
+        }
+      } else if (cell.type === 'crop' && cell.cropType) {
+        placedCrops.set(id, { id, crop: cell.cropType, position: { x, y }, forMutations: [], pinned: cell.pinned });
+        if (grid[y][x] === null) grid[y][x] = id;
+      }
+    });
+  });
+
+  const state: OptimizerState = {
+    grid,
+    ground,
+    placedMutations,
+    placedCrops,
+    index: buildOccupancyIndex(grid, placedMutations, placedCrops),
+    score: 0
+  };
+  return { state, unlockedSlots };
+}
+
+/**
+ * Every rule broken by a designer layout
+ */
+export function validateDesignGrid(designGrid: CustomDesignGrid, ground: GroundMap = {}): LayoutViolation[] {
+  const { state, unlockedSlots } = createDesignGridState(designGrid, ground);
+  return validateLayout(state, unlockedSlots);
+}
+
+/**
+ * Throw if a state breaks any rule. Violations that only involve pinned
+ * placements are left alone, since those came from the user's layout.
+ */
+export function assertValidLayout(state: OptimizerState, unlockedSlots: Set<string>, context: string): void {
+  const isPinned = (placedId: string) =>
+    Boolean(state.placedMutations.get(placedId)?.pinned ?? state.placedCrops.get(placedId)?.pinned);
+
+  const violations = validateLayout(state, unlockedSlots).filter(violation =>
+    !isPinned(violation.placedId) || (violation.type === 'overlap' && !isPinned(violation.otherId))
+  );
+  if (violations.length === 0) return;
+
+  const details = violations.slice(0, 3).map(violation => {
+    const cells = violation.cells.map(cell => `${cell.y},${cell.x}`).join(' ');
+    return `${violation.type} (${violation.subject} ${violation.placedId}) at ${cells}`;
+  });
+  const more = violations.length > 3 ? `; ${violations.length - 3} more` : '';
+  throw new Error(`${context} left an invalid layout: ${details.join('; ')}${more}`);
+}